@@ -0,0 +1,119 @@
+import { afterEach, describe, expect, it, mock, spyOn } from 'bun:test';
+import { act, cleanup, renderHook, waitFor } from '@testing-library/react';
+import type { ReactNode } from 'react';
+import { resetCallbackClaims } from './callbackCoordinator.js';
+import { DiscordAuthProvider, useDiscordAuth } from './DiscordAuthProvider.js';
+import type { OnSuccessFunc } from './DiscordLoginTypes.js';
+import { createMemoryLocation } from './location.js';
+import { createSession, SESSION_STORAGE_KEY, saveSession } from './session.js';
+import { createMemoryStorage } from './storage.js';
+import { createFakeDiscord, createUser, simulateCallback } from './testing.js';
+
+describe('DiscordAuthProvider', () => {
+    const user = {
+        id: '123456789012345678',
+        username: 'testuser',
+        discriminator: '0',
+        global_name: 'Test User',
+        avatar: null,
+        banner: null,
+        accent_color: null,
+        locale: 'en-US',
+        verified: true,
+        email: null,
+    };
+
+    let restoreFetch: (() => void) | undefined;
+
+    afterEach(() => {
+        cleanup();
+        resetCallbackClaims();
+        restoreFetch?.();
+        restoreFetch = undefined;
+        mock.restore();
+    });
+
+    const createWrapper = (
+        storage = createMemoryStorage(),
+        location = createMemoryLocation('http://localhost:3000/'),
+        onSuccess?: OnSuccessFunc
+    ) => {
+        const Wrapper = ({ children }: { children: ReactNode }) => (
+            <DiscordAuthProvider
+                clientId="123456789012345678"
+                redirectUri="http://localhost:3000/callback"
+                responseType="token"
+                state={false}
+                storage={createMemoryStorage()}
+                session={{ storage }}
+                location={location}
+                onSuccess={onSuccess}
+            >
+                {children}
+            </DiscordAuthProvider>
+        );
+        return Wrapper;
+    };
+
+    it('should throw when useDiscordAuth is used outside of the provider', () => {
+        // React reports the error thrown during rendering before rethrowing it
+        spyOn(console, 'error').mockImplementation(() => {});
+
+        expect(() => renderHook(() => useDiscordAuth())).toThrow(
+            'useDiscordAuth must be used within a DiscordAuthProvider'
+        );
+    });
+
+    it('should be unauthenticated without a session', () => {
+        const { result } = renderHook(() => useDiscordAuth(), { wrapper: createWrapper() });
+
+        expect(result.current.status).toBe('unauthenticated');
+        expect(result.current.user).toBeNull();
+        expect(result.current.token).toBeNull();
+    });
+
+    it('should expose the stored session and clear it on logout', async () => {
+        const storage = createMemoryStorage();
+        saveSession(
+            storage,
+            SESSION_STORAGE_KEY,
+            createSession({ token_type: 'Bearer', access_token: 'abc', expires_in: 3600, scope: ['identify'], user })
+        );
+
+        const { result } = renderHook(() => useDiscordAuth(), { wrapper: createWrapper(storage) });
+
+        expect(result.current.status).toBe('authenticated');
+        expect(result.current.user?.username).toBe('testuser');
+        expect(result.current.token?.access_token).toBe('abc');
+
+        act(() => {
+            result.current.logout();
+        });
+
+        expect(result.current.status).toBe('unauthenticated');
+        expect(storage.getItem(SESSION_STORAGE_KEY)).toBeNull();
+    });
+
+    it('should process the login callback and expose the logged in user', async () => {
+        const discord = createFakeDiscord({ users: [createUser({ username: 'wumpus' })] });
+        restoreFetch = discord.install();
+        const storage = createMemoryStorage();
+        const location = createMemoryLocation('http://localhost:3000/');
+        const onSuccess = mock();
+        const { result } = renderHook(() => useDiscordAuth(), {
+            wrapper: createWrapper(storage, location, onSuccess),
+        });
+        expect(result.current.status).toBe('unauthenticated');
+
+        act(() => {
+            simulateCallback({ type: 'token', user: discord.users[0], location });
+        });
+
+        await waitFor(() => expect(result.current.status).toBe('authenticated'));
+        expect(result.current.user?.username).toBe('wumpus');
+        expect(onSuccess).toHaveBeenCalledTimes(1);
+        expect(result.current.token?.access_token).toBe(onSuccess.mock.calls[0][0].access_token);
+        expect(storage.getItem(SESSION_STORAGE_KEY)).not.toBeNull();
+        expect(location.getUrl()).toBe('http://localhost:3000/callback');
+    });
+});
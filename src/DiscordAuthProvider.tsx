@@ -0,0 +1,105 @@
+import { createContext, type ReactNode, useContext, useMemo } from 'react';
+
+import type { DiscordSession, LoginOptions, UseDiscordLoginParams, User } from './DiscordLoginTypes.js';
+import useDiscordLogin from './useDiscordLogin.js';
+
+/**
+ * Authentication status exposed by `useDiscordAuth`.
+ *
+ * - `loading`: an OAuth2 callback is being processed
+ * - `authenticated`: a non-expired token session exists
+ * - `unauthenticated`: no session (logged out, expired, or code flow)
+ *
+ * @public
+ */
+export type DiscordAuthStatus = 'loading' | 'authenticated' | 'unauthenticated';
+
+/**
+ * Value returned by `useDiscordAuth`.
+ *
+ * @public
+ */
+export interface DiscordAuthContextValue {
+    /** Logged in Discord user, or null */
+    user: User | null;
+    /** Current access token, or null */
+    token: DiscordSession['token'] | null;
+    /** Current authentication status */
+    status: DiscordAuthStatus;
+    /** Redirects to Discord to log in and returns to the current page (or `returnTo`) afterwards */
+    login: (options?: LoginOptions) => void;
+    /** Clears the session */
+    logout: () => void;
+}
+
+/**
+ * Props for `DiscordAuthProvider`: the `useDiscordLogin` parameters plus children.
+ *
+ * @public
+ */
+export type DiscordAuthProviderProps = UseDiscordLoginParams & {
+    children?: ReactNode;
+};
+
+const DiscordAuthContext = createContext<DiscordAuthContextValue | null>(null);
+
+/**
+ * Owns the Discord login configuration, callback processing and the current session for its descendants.
+ *
+ * Built on top of `useDiscordLogin` with its token session, so the user and token are shared by every
+ * component calling `useDiscordAuth`. Use `responseType: 'token'` to get `user` and `token`; with the
+ * 'code' flow the provider still processes callbacks but the session lives on your backend.
+ *
+ * @example
+ * ```tsx
+ * <DiscordAuthProvider clientId="123456789012345678" responseType="token" session={{ storage: 'localStorage' }}>
+ *   <App />
+ * </DiscordAuthProvider>
+ * ```
+ *
+ * @public
+ */
+export const DiscordAuthProvider = ({ children, ...params }: DiscordAuthProviderProps) => {
+    const { login, isLoading, session, logout } = useDiscordLogin(params);
+
+    const value = useMemo<DiscordAuthContextValue>(
+        () => ({
+            user: session?.user ?? null,
+            token: session?.token ?? null,
+            status: isLoading ? 'loading' : session ? 'authenticated' : 'unauthenticated',
+            login,
+            logout,
+        }),
+        [session, isLoading, login, logout]
+    );
+
+    return <DiscordAuthContext.Provider value={value}>{children}</DiscordAuthContext.Provider>;
+};
+
+/**
+ * Returns the shared Discord authentication state of the nearest `DiscordAuthProvider`.
+ *
+ * @returns `{ user, token, status, login, logout }`
+ *
+ * @throws {Error} When used outside of a `DiscordAuthProvider`
+ *
+ * @example
+ * ```tsx
+ * const Navbar = () => {
+ *   const { user, status, login, logout } = useDiscordAuth();
+ *   if (status === 'authenticated') {
+ *     return <button onClick={logout}>Log out {user?.username}</button>;
+ *   }
+ *   return <button onClick={() => login()}>Login with Discord</button>;
+ * };
+ * ```
+ *
+ * @public
+ */
+export const useDiscordAuth = (): DiscordAuthContextValue => {
+    const context = useContext(DiscordAuthContext);
+    if (!context) {
+        throw new Error('useDiscordAuth must be used within a DiscordAuthProvider');
+    }
+    return context;
+};
@@ -0,0 +1,93 @@
+import { afterEach, describe, expect, it, mock, spyOn } from 'bun:test';
+import { cleanup, render, screen, waitFor } from '@testing-library/react';
+import { resetCallbackClaims } from './callbackCoordinator.js';
+import { DiscordCallback } from './DiscordCallback.js';
+import { createMemoryLocation } from './location.js';
+import { RETURN_TO_STORAGE_KEY } from './returnTo.js';
+import { createMemoryStorage } from './storage.js';
+
+describe('DiscordCallback', () => {
+    const props = {
+        clientId: '123456789012345678',
+        redirectUri: 'http://localhost:3000/callback',
+        state: false,
+    };
+
+    afterEach(() => {
+        cleanup();
+        resetCallbackClaims();
+    });
+
+    it('should render the loading slot, then the success slot and redirect', async () => {
+        const onSuccess = mock();
+        const location = createMemoryLocation('http://localhost:3000/callback?code=abc');
+        render(
+            <DiscordCallback
+                {...props}
+                storage={createMemoryStorage()}
+                location={location}
+                onSuccess={onSuccess}
+                loading={<span>Checking…</span>}
+                success={({ code }) => <span>Code {code?.code}</span>}
+                redirectTo="/dashboard"
+            />
+        );
+
+        expect(screen.getByText('Checking…')).toBeDefined();
+        await waitFor(() => expect(screen.getByText('Code abc')).toBeDefined());
+        expect(onSuccess).toHaveBeenCalledWith({ code: 'abc' });
+        expect(location.getUrl()).toBe('http://localhost:3000/dashboard');
+    });
+
+    it('should leave the navigation to the return target saved by login()', async () => {
+        const storage = createMemoryStorage();
+        storage.setItem(RETURN_TO_STORAGE_KEY, '/settings');
+        const location = createMemoryLocation('http://localhost:3000/callback?code=abc');
+        render(<DiscordCallback {...props} storage={storage} location={location} redirectTo="/dashboard" />);
+
+        await waitFor(() => expect(screen.getByRole('status').textContent).toBe('Logged in with Discord.'));
+        expect(location.getUrl()).toBe('http://localhost:3000/settings');
+    });
+
+    it('should not redirect to another origin', async () => {
+        const warn = spyOn(console, 'warn').mockImplementation(() => {});
+        const location = createMemoryLocation('http://localhost:3000/callback?code=abc');
+        render(
+            <DiscordCallback
+                {...props}
+                storage={createMemoryStorage()}
+                location={location}
+                redirectTo="https://evil.example/phish"
+            />
+        );
+
+        await waitFor(() => expect(screen.getByRole('status').textContent).toBe('Logged in with Discord.'));
+        expect(location.getUrl()).toBe('http://localhost:3000/callback');
+        expect(warn).toHaveBeenCalledTimes(1);
+        warn.mockRestore();
+    });
+
+    it('should render the error of a failed login', async () => {
+        const location = createMemoryLocation(
+            'http://localhost:3000/callback?error=access_denied&error_description=User%20denied'
+        );
+        render(<DiscordCallback {...props} storage={createMemoryStorage()} location={location} redirectTo="/" />);
+
+        await waitFor(() => expect(screen.getByRole('alert').textContent).toContain('User denied'));
+        expect(location.getUrl()).toBe('http://localhost:3000/callback');
+    });
+
+    it('should render the error slot when the URL holds no callback', () => {
+        const location = createMemoryLocation('http://localhost:3000/callback');
+        render(
+            <DiscordCallback
+                {...props}
+                storage={createMemoryStorage()}
+                location={location}
+                error={(error) => <span>Failed: {error.error}</span>}
+            />
+        );
+
+        expect(screen.getByText('Failed: callback_error')).toBeDefined();
+    });
+});
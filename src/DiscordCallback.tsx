@@ -0,0 +1,158 @@
+import { type ReactNode, useEffect, useRef, useState } from 'react';
+
+import type { CodeResponse, ErrorResponse, TokenResponse, UseDiscordLoginParams, User } from './DiscordLoginTypes.js';
+import { browserLocation } from './location.js';
+import { RETURN_TO_STORAGE_KEY, resolveReturnTo } from './returnTo.js';
+import { getDefaultStorage } from './storage.js';
+import useDiscordLogin from './useDiscordLogin.js';
+import { shouldHandleCallback } from './utils.js';
+
+/**
+ * Result passed to the `success` slot of `DiscordCallback`.
+ *
+ * @public
+ */
+export interface DiscordCallbackResult {
+    /** Code response of a code flow login, or null */
+    code: CodeResponse | null;
+    /** Token response of a token flow login, or null */
+    token: TokenResponse | null;
+    /** User of a token flow login, or null */
+    user: User | null;
+}
+
+/**
+ * Props for `DiscordCallback`: the `useDiscordLogin` parameters plus its slots and redirect target.
+ *
+ * @public
+ */
+export type DiscordCallbackProps = UseDiscordLoginParams & {
+    /** Rendered while the callback is processed. Defaults to a polite status message */
+    loading?: ReactNode;
+    /** Rendered after a successful login, or a function rendering the result. Defaults to a status message */
+    success?: ReactNode | ((result: DiscordCallbackResult) => ReactNode);
+    /** Rendered after a failed login, or a function rendering the error. Defaults to an alert with its description */
+    error?: ReactNode | ((error: ErrorResponse) => ReactNode);
+    /**
+     * Same-origin path to navigate to after a successful login, unless the login already returned
+     * to the page it was started from (see `login()`)
+     */
+    redirectTo?: string;
+};
+
+/**
+ * Error shown when the page was opened without OAuth2 callback parameters.
+ *
+ * @internal
+ */
+const MISSING_CALLBACK_ERROR: ErrorResponse = {
+    error: 'callback_error',
+    description: 'No Discord login response was found in the URL.',
+    source: 'callback',
+};
+
+/**
+ * Callback page component: processes the OAuth2 callback in the current URL and renders its progress.
+ *
+ * Runs `useDiscordLogin` with its props, which parses the URL with `getCallbackResponse`, verifies the
+ * state, fetches the user of token logins and calls `onSuccess`/`onFailure`. Renders the `loading`,
+ * `success` or `error` slot for the current status, then navigates to `redirectTo` after a successful
+ * login when the hook did not already return to the page `login()` was called from.
+ *
+ * @param props - `useDiscordLogin` parameters, slots and redirect target
+ *
+ * @example
+ * ```tsx
+ * // app/callback/page.tsx
+ * export default () => <DiscordCallback clientId="123456789012345678" responseType="token" redirectTo="/" />;
+ *
+ * // Custom slots
+ * <DiscordCallback
+ *   clientId="123456789012345678"
+ *   loading={<Spinner />}
+ *   success={({ user }) => <p>Welcome {user?.username}</p>}
+ *   error={(error) => <Retry message={error.description} />}
+ * />
+ * ```
+ *
+ * @remarks
+ * - Renders the `error` slot with a 'callback_error' when the URL holds no callback parameters
+ * - Inside a `loginWithPopup` window the result is handed to the opener and the popup closes while loading
+ * - `redirectTo` uses the location adapter (`location` prop), so router adapters navigate client-side
+ * - `redirectTo` targets on another origin are ignored with a warning
+ *
+ * @public
+ */
+export const DiscordCallback = ({
+    loading,
+    success,
+    error: errorSlot,
+    redirectTo,
+    location = browserLocation,
+    ...params
+}: DiscordCallbackProps) => {
+    const { status, code, token, user, error } = useDiscordLogin({ ...params, location });
+    // The hook removes the callback parameters from the URL, so check for them before it runs
+    const [hasCallback] = useState<boolean>(() => shouldHandleCallback(location.getUrl()));
+    // A return target saved by login() takes precedence: the hook navigates back to it
+    const [hasReturnTo] = useState<boolean>(
+        () => (params.storage ?? getDefaultStorage()).getItem(RETURN_TO_STORAGE_KEY) !== null
+    );
+    const hasRedirectedRef = useRef<boolean>(false);
+
+    useEffect(() => {
+        if (status !== 'success' || !redirectTo || hasReturnTo || hasRedirectedRef.current) {
+            return;
+        }
+        hasRedirectedRef.current = true;
+        try {
+            const { origin } = new URL(location.getUrl());
+            // Rejects targets on other origins, so redirectTo cannot be used as an open redirect
+            const target = resolveReturnTo(redirectTo, origin);
+            if (target === null) {
+                console.warn(
+                    `[react-discord-login] redirectTo '${redirectTo}' is not on the current origin '${origin}'. ` +
+                        'Staying on the callback page instead.'
+                );
+                return;
+            }
+            location.replace(target);
+        } catch {
+            // noop: the location adapter could not read or replace the URL
+        }
+    }, [hasReturnTo, location, redirectTo, status]);
+
+    if (status === 'error' || (status === 'idle' && !hasCallback)) {
+        const callbackError = error ?? MISSING_CALLBACK_ERROR;
+        if (typeof errorSlot === 'function') {
+            return <>{errorSlot(callbackError)}</>;
+        }
+        return (
+            <>
+                {errorSlot ?? (
+                    <div role="alert">
+                        <p>Login with Discord failed.</p>
+                        {callbackError.description && <p>{callbackError.description}</p>}
+                    </div>
+                )}
+            </>
+        );
+    }
+
+    if (status === 'success') {
+        if (typeof success === 'function') {
+            return <>{success({ code, token, user })}</>;
+        }
+        return <>{success ?? <output aria-live="polite">Logged in with Discord.</output>}</>;
+    }
+
+    return (
+        <>
+            {loading ?? (
+                <output aria-live="polite" aria-busy="true">
+                    Logging in with Discord…
+                </output>
+            )}
+        </>
+    );
+};
@@ -0,0 +1,134 @@
+import { afterEach, describe, expect, it, mock, spyOn } from 'bun:test';
+import { act, cleanup, fireEvent, render, screen } from '@testing-library/react';
+import { DiscordLoginButton } from './DiscordLoginButton.js';
+import { createMemoryLocation } from './location.js';
+import { RETURN_TO_STORAGE_KEY } from './returnTo.js';
+import { createMemoryStorage } from './storage.js';
+
+describe('DiscordLoginButton', () => {
+    const props = {
+        clientId: '123456789012345678',
+        redirectUri: 'http://localhost:3000/callback',
+        state: false,
+        storage: createMemoryStorage(),
+        location: createMemoryLocation('http://localhost:3000/guilds'),
+    };
+
+    afterEach(() => {
+        cleanup();
+        mock.restore();
+    });
+
+    it('should render an accessible Discord button that redirects to Discord', () => {
+        const assign = spyOn(props.location, 'assign').mockImplementation(() => {});
+        render(<DiscordLoginButton {...props} loginOptions={{ returnTo: '/settings' }} />);
+
+        const button = screen.getByRole('button', { name: 'Login with Discord' });
+        expect(button.getAttribute('type')).toBe('button');
+        expect(button.getAttribute('aria-busy')).toBe('false');
+        expect(button.getAttribute('data-status')).toBe('idle');
+        expect(button.getAttribute('style')).toContain('background-color');
+
+        fireEvent.click(button);
+
+        expect(assign).toHaveBeenCalledTimes(1);
+        expect(assign.mock.calls[0][0]).toStartWith('https://discord.com/api/oauth2/authorize?');
+        expect(props.storage.getItem(RETURN_TO_STORAGE_KEY)).toBe('/settings');
+        expect(button.getAttribute('aria-busy')).toBe('true');
+        expect(button.hasAttribute('disabled')).toBe(true);
+    });
+
+    it('should skip the built-in styles when unstyled', () => {
+        render(<DiscordLoginButton {...props} unstyled className="my-button" />);
+
+        const button = screen.getByRole('button');
+        expect(button.hasAttribute('style')).toBe(false);
+        expect(button.className).toBe('my-button');
+    });
+
+    it('should not log in when disabled or when onClick prevents it', () => {
+        const assign = spyOn(props.location, 'assign').mockImplementation(() => {});
+        const { rerender } = render(<DiscordLoginButton {...props} disabled />);
+
+        fireEvent.click(screen.getByRole('button'));
+        rerender(<DiscordLoginButton {...props} onClick={(event) => event.preventDefault()} />);
+        fireEvent.click(screen.getByRole('button'));
+
+        expect(assign).not.toHaveBeenCalled();
+    });
+
+    it('should render the login state through a render prop', () => {
+        render(<DiscordLoginButton {...props}>{({ status }) => `Status: ${status}`}</DiscordLoginButton>);
+
+        expect(screen.getByRole('button').textContent).toBe('Status: idle');
+    });
+
+    it('should pass the login props to its child with asChild', () => {
+        const assign = spyOn(props.location, 'assign').mockImplementation(() => {});
+        const onClick = mock();
+        render(
+            <DiscordLoginButton {...props} asChild unstyled>
+                <button type="button" className="custom-button" onClick={onClick}>
+                    Sign in
+                </button>
+            </DiscordLoginButton>
+        );
+
+        const button = screen.getByRole('button', { name: 'Sign in' });
+        expect(screen.getAllByRole('button')).toHaveLength(1);
+        expect(button.className).toBe('custom-button');
+        expect(button.getAttribute('aria-disabled')).toBe('false');
+
+        fireEvent.click(button);
+
+        expect(onClick).toHaveBeenCalledTimes(1);
+        expect(assign).toHaveBeenCalledTimes(1);
+    });
+
+    it('should keep an asChild link from navigating by itself', () => {
+        const assign = spyOn(props.location, 'assign').mockImplementation(() => {});
+        render(
+            <DiscordLoginButton {...props} asChild unstyled>
+                <a href="/login">Sign in</a>
+            </DiscordLoginButton>
+        );
+
+        const notPrevented = fireEvent.click(screen.getByRole('link', { name: 'Sign in' }));
+
+        expect(notPrevented).toBe(false);
+        expect(assign).toHaveBeenCalledTimes(1);
+    });
+
+    it('should fall back to the redirect when the popup is blocked', async () => {
+        const assign = spyOn(props.location, 'assign').mockImplementation(() => {});
+        const open = spyOn(window, 'open').mockImplementation(() => null);
+        const onFailure = mock();
+        render(<DiscordLoginButton {...props} popup onFailure={onFailure} />);
+
+        await act(async () => {
+            fireEvent.click(screen.getByRole('button'));
+            await new Promise((resolve) => setTimeout(resolve, 0));
+        });
+
+        expect(open).toHaveBeenCalledTimes(1);
+        expect(onFailure.mock.calls[0][0]).toMatchObject({ error: 'popup_blocked' });
+        expect(assign).toHaveBeenCalledTimes(1);
+    });
+
+    it('should report popup logins that fail to start', async () => {
+        const openError = new Error('open failed');
+        spyOn(window, 'open').mockImplementation(() => {
+            throw openError;
+        });
+        const consoleError = spyOn(console, 'error').mockImplementation(() => {});
+        render(<DiscordLoginButton {...props} popup />);
+
+        await act(async () => {
+            fireEvent.click(screen.getByRole('button'));
+            await new Promise((resolve) => setTimeout(resolve, 0));
+        });
+
+        expect(consoleError).toHaveBeenCalledWith('Discord popup login failed:', openError);
+        expect(screen.getByRole('button').getAttribute('data-status')).toBe('idle');
+    });
+});
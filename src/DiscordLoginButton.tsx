@@ -0,0 +1,263 @@
+import {
+    type ButtonHTMLAttributes,
+    type CSSProperties,
+    cloneElement,
+    isValidElement,
+    type MouseEvent,
+    type ReactElement,
+    type ReactNode,
+} from 'react';
+
+import type {
+    DiscordLoginStatus,
+    ErrorResponse,
+    LoginOptions,
+    PopupOptions,
+    UseDiscordLoginParams,
+} from './DiscordLoginTypes.js';
+import useDiscordLogin from './useDiscordLogin.js';
+
+/**
+ * Login state passed to the render-prop children of `DiscordLoginButton`.
+ *
+ * @public
+ */
+export interface DiscordLoginButtonRenderProps {
+    /** Current login status of the button's hook */
+    status: DiscordLoginStatus;
+    /** Whether a login is in progress */
+    isLoading: boolean;
+    /** Whether the button is disabled (by the `disabled` prop or while loading) */
+    disabled: boolean;
+    /** Error of the last failed login, or null */
+    error: ErrorResponse | null;
+}
+
+/**
+ * Props for `DiscordLoginButton`: the `useDiscordLogin` parameters, login options and button attributes.
+ *
+ * @public
+ */
+export type DiscordLoginButtonProps = UseDiscordLoginParams &
+    Omit<ButtonHTMLAttributes<HTMLButtonElement>, 'children' | keyof UseDiscordLoginParams> & {
+        /** Button content, or a function rendering it from the login state. Defaults to the Discord logo and label */
+        children?: ReactNode | ((props: DiscordLoginButtonRenderProps) => ReactNode);
+        /** Render the single child element (e.g. your design-system button or an `<a>`) instead of a `<button>` */
+        asChild?: boolean;
+        /** Skip the built-in Discord styles */
+        unstyled?: boolean;
+        /** Log in through a popup (optionally with its options) instead of a redirect */
+        popup?: boolean | PopupOptions;
+        /** Return target and payload of the redirect login */
+        loginOptions?: LoginOptions;
+        /** Content shown while a login is in progress. Defaults to 'Logging in…' */
+        loadingText?: ReactNode;
+    };
+
+/**
+ * Discord blurple button styles used unless `unstyled` is set.
+ *
+ * @internal
+ */
+const DISCORD_BUTTON_STYLE: CSSProperties = {
+    display: 'inline-flex',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: '0.5em',
+    padding: '0.625em 1.25em',
+    border: 'none',
+    borderRadius: '0.25em',
+    backgroundColor: '#5865F2',
+    color: '#FFFFFF',
+    font: 'inherit',
+    fontWeight: 600,
+    lineHeight: 1.25,
+    cursor: 'pointer',
+};
+
+const DISCORD_BUTTON_DISABLED_STYLE: CSSProperties = {
+    cursor: 'not-allowed',
+    opacity: 0.6,
+};
+
+/**
+ * Discord logo, decorative since the button label already names Discord.
+ *
+ * @internal
+ */
+const DiscordLogo = () => (
+    <svg aria-hidden="true" focusable="false" width="1.25em" height="1.25em" viewBox="0 0 127.14 96.36">
+        <path
+            fill="currentColor"
+            d="M107.7 8.07A105.15 105.15 0 0 0 81.47 0a72.06 72.06 0 0 0-3.36 6.83 97.68 97.68 0 0 0-29.11 0A72.37 72.37 0 0 0 45.64 0a105.89 105.89 0 0 0-26.25 8.09C2.79 32.65-1.71 56.6.54 80.21a105.73 105.73 0 0 0 32.17 16.15 77.7 77.7 0 0 0 6.89-11.11 68.42 68.42 0 0 1-10.85-5.18c.91-.66 1.8-1.34 2.66-2a75.57 75.57 0 0 0 64.32 0c.87.71 1.76 1.39 2.66 2a68.68 68.68 0 0 1-10.87 5.19 77 77 0 0 0 6.89 11.1 105.25 105.25 0 0 0 32.19-16.14c2.64-27.38-4.51-51.11-18.9-72.15ZM42.45 65.69C36.18 65.69 31 60 31 53s5-12.74 11.43-12.74S54 46 53.89 53s-5.05 12.69-11.44 12.69Zm42.24 0C78.41 65.69 73.25 60 73.25 53s5-12.74 11.44-12.74S96.23 46 96.12 53s-5.04 12.69-11.43 12.69Z"
+        />
+    </svg>
+);
+
+/**
+ * Accessible "Login with Discord" button that starts the login itself.
+ *
+ * Runs `useDiscordLogin` with its props, so it also processes the callback when rendered on the
+ * redirect page. Clicking redirects to Discord with `login()` and returns to the current page (or
+ * `loginOptions.returnTo`) afterwards; with `popup` it uses `loginWithPopup` and falls back to the
+ * redirect when the browser blocks the popup. While a login is in progress the button is disabled
+ * and marked `aria-busy`.
+ *
+ * @param props - `useDiscordLogin` parameters, button options and `<button>` attributes
+ *
+ * @example
+ * ```tsx
+ * <DiscordLoginButton clientId="123456789012345678" responseType="token" onSuccess={handleLogin} />
+ *
+ * // Popup login with custom content
+ * <DiscordLoginButton clientId="123456789012345678" popup>
+ *   {({ isLoading }) => (isLoading ? 'Waiting for Discord…' : 'Connect Discord')}
+ * </DiscordLoginButton>
+ *
+ * // Your own component, without the Discord styles
+ * <DiscordLoginButton clientId="123456789012345678" asChild unstyled>
+ *   <MyButton variant="primary">Sign in</MyButton>
+ * </DiscordLoginButton>
+ * ```
+ *
+ * @remarks
+ * - `onClick` runs before the login; call `event.preventDefault()` to cancel it
+ * - With `asChild`, the child receives the click handler, `aria-busy`, `aria-disabled` and `data-status`
+ *   but no `disabled` attribute, so links stay focusable; clicks are ignored while disabled
+ * - The click's default action is prevented once the login starts, so an `asChild` link does not follow its `href`
+ * - `onFailure` receives the `popup_blocked` error before the redirect fallback starts
+ *
+ * @public
+ */
+export const DiscordLoginButton = ({
+    children,
+    asChild = false,
+    unstyled = false,
+    popup = false,
+    loginOptions,
+    loadingText = 'Logging in…',
+    disabled = false,
+    onClick,
+    style,
+    clientId,
+    redirectUri,
+    responseType,
+    scopes,
+    state,
+    storage,
+    pkce,
+    prompt,
+    permissions,
+    guildId,
+    disableGuildSelect,
+    integrationType,
+    endpoints,
+    session,
+    autoFetch,
+    location,
+    onSuccess,
+    onFailure,
+    onTokenExpiring,
+    onTokenExpired,
+    tokenExpiry,
+    sync,
+    ...buttonProps
+}: DiscordLoginButtonProps) => {
+    // A complete record, so a new hook parameter does not compile until it is passed through here
+    const params = {
+        clientId,
+        redirectUri,
+        responseType,
+        scopes,
+        state,
+        storage,
+        pkce,
+        prompt,
+        permissions,
+        guildId,
+        disableGuildSelect,
+        integrationType,
+        endpoints,
+        session,
+        autoFetch,
+        location,
+        onSuccess,
+        onFailure,
+        onTokenExpiring,
+        onTokenExpired,
+        tokenExpiry,
+        sync,
+    } satisfies Record<keyof UseDiscordLoginParams, unknown>;
+    const { status, error, isLoading, login, loginWithPopup } = useDiscordLogin(params);
+    const isDisabled = disabled || isLoading;
+
+    const handleClick = (event: MouseEvent<HTMLButtonElement>) => {
+        onClick?.(event);
+        if (event.defaultPrevented) {
+            return;
+        }
+        if (isDisabled) {
+            // asChild elements cannot be disabled natively
+            event.preventDefault();
+            return;
+        }
+        // The login navigates by itself: an asChild link must not follow its href as well
+        event.preventDefault();
+        if (!popup) {
+            login(loginOptions);
+            return;
+        }
+        loginWithPopup(popup === true ? undefined : popup, loginOptions?.payload)
+            .then((response) => {
+                if (response.error?.error === 'popup_blocked') {
+                    login(loginOptions);
+                }
+            })
+            .catch((loginError: unknown) => {
+                console.error('Discord popup login failed:', loginError);
+            });
+    };
+
+    const content =
+        typeof children === 'function'
+            ? children({ status, isLoading, disabled: isDisabled, error })
+            : (children ?? (
+                  <>
+                      <DiscordLogo />
+                      <span>{isLoading ? loadingText : 'Login with Discord'}</span>
+                  </>
+              ));
+
+    const sharedProps = {
+        ...buttonProps,
+        onClick: handleClick,
+        'aria-busy': isLoading,
+        'aria-disabled': isDisabled,
+        'data-status': status,
+        style: unstyled
+            ? style
+            : { ...DISCORD_BUTTON_STYLE, ...(isDisabled ? DISCORD_BUTTON_DISABLED_STYLE : {}), ...style },
+    };
+
+    if (asChild && isValidElement(children)) {
+        const child = children as ReactElement<{
+            onClick?: (event: MouseEvent<HTMLButtonElement>) => void;
+            style?: CSSProperties;
+        }>;
+        return cloneElement(child, {
+            ...sharedProps,
+            ...child.props,
+            onClick: (event: MouseEvent<HTMLButtonElement>) => {
+                child.props.onClick?.(event);
+                handleClick(event);
+            },
+            style: { ...sharedProps.style, ...child.props.style },
+        });
+    }
+
+    return (
+        <button type="button" disabled={isDisabled} {...sharedProps}>
+            {content}
+        </button>
+    );
+};
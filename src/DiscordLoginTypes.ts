@@ -1,3 +1,120 @@
+/**
+ * Minimal key/value storage interface, compatible with `window.sessionStorage` and `window.localStorage`.
+ *
+ * @public
+ */
+export interface StorageLike {
+    /** Returns the stored value for a key, or null when absent */
+    getItem(key: string): string | null;
+    /** Stores a value for a key */
+    setItem(key: string, value: string): void;
+    /** Removes the value stored for a key */
+    removeItem(key: string): void;
+}
+
+/**
+ * Storage used to persist data: a named built-in storage or a custom adapter.
+ *
+ * - `'memory'`: kept in memory for the lifetime of the page
+ * - `'sessionStorage'`: kept for the lifetime of the browser tab
+ * - `'localStorage'`: kept across tabs and browser restarts
+ *
+ * @public
+ */
+export type StorageOption = 'memory' | 'sessionStorage' | 'localStorage' | StorageLike;
+
+/**
+ * Options for the persistent token session (token flow only).
+ *
+ * @public
+ */
+export interface SessionOptions {
+    /** Where the session is persisted. Defaults to 'memory' */
+    storage?: StorageOption;
+    /** Storage key of the session. Defaults to 'react-discord-login:session' */
+    key?: string;
+}
+
+/**
+ * Registry for OAuth2 scopes not (yet) covered by {@link DiscordScope}.
+ *
+ * Add new scopes through module augmentation to keep typo checking for the documented ones:
+ *
+ * ```ts
+ * declare module 'react-discord-login' {
+ *   interface CustomDiscordScopes {
+ *     'some.new_scope': true;
+ *   }
+ * }
+ * ```
+ *
+ * @public
+ */
+export interface CustomDiscordScopes {
+    /** Placeholder for the augmented scopes; it is not a scope and is left out of {@link DiscordScope} */
+    __placeholder?: never;
+}
+
+/**
+ * Discord OAuth2 scope, as documented at https://discord.com/developers/docs/topics/oauth2#shared-resources-oauth2-scopes
+ *
+ * @public
+ */
+export type DiscordScope =
+    | 'activities.read'
+    | 'activities.write'
+    | 'applications.builds.read'
+    | 'applications.builds.upload'
+    | 'applications.commands'
+    | 'applications.commands.update'
+    | 'applications.commands.permissions.update'
+    | 'applications.entitlements'
+    | 'applications.store.update'
+    | 'bot'
+    | 'connections'
+    | 'dm_channels.read'
+    | 'email'
+    | 'gdm.join'
+    | 'guilds'
+    | 'guilds.join'
+    | 'guilds.members.read'
+    | 'identify'
+    | 'messages.read'
+    | 'relationships.read'
+    | 'role_connections.write'
+    | 'rpc'
+    | 'rpc.activities.write'
+    | 'rpc.notifications.read'
+    | 'rpc.voice.read'
+    | 'rpc.voice.write'
+    | 'voice'
+    | 'webhook.incoming'
+    | Exclude<Extract<keyof CustomDiscordScopes, string>, '__placeholder'>;
+
+/**
+ * Installation context for Discord applications: 0 for guild install, 1 for user install.
+ *
+ * @public
+ */
+export type DiscordIntegrationType = 0 | 1;
+
+/**
+ * Discord endpoints used by the library, e.g. to route requests through a proxy, pin an API version
+ * or point tests at a local stand-in server.
+ *
+ * @public
+ */
+export interface DiscordEndpoints {
+    /** OAuth2 authorization URL, without query parameters. Defaults to 'https://discord.com/api/oauth2/authorize' */
+    authorizeUrl?: string;
+    /** Base URL of the HTTP API and OAuth2 token endpoints, without a version. Defaults to 'https://discord.com/api' */
+    apiBaseUrl?: string;
+    /** API version appended to `apiBaseUrl` as `/v{apiVersion}`, e.g. 10. Defaults to Discord's unversioned default */
+    apiVersion?: number;
+    /** Base URL of the Discord CDN, used by the image helpers. Defaults to 'https://cdn.discordapp.com' */
+    cdnBaseUrl?: string;
+}
+
 /**
  * Configuration parameters for Discord OAuth2 authentication.
  *
@@ -11,7 +128,25 @@ export interface DiscordLoginParams {
     /** OAuth2 response type. 'code' for server-side flow, 'token' for client-side flow. Defaults to 'code' */
     responseType?: 'token' | 'code';
     /** Array of Discord OAuth2 scopes. Defaults to ['identify'] */
-    scopes?: string[];
+    scopes?: DiscordScope[];
+    /** Whether to generate and verify an OAuth2 `state` parameter (CSRF protection). Defaults to true */
+    state?: boolean;
+    /** Storage persisting per-login values across the redirect. Defaults to sessionStorage */
+    storage?: StorageLike;
+    /** Whether to use PKCE (RFC 7636, S256) with the 'code' response type. Defaults to false */
+    pkce?: boolean;
+    /** 'consent' always shows the authorization screen, 'none' skips it when the user already authorized the app */
+    prompt?: 'consent' | 'none';
+    /** Permissions bitfield requested for the bot when the 'bot' scope is used */
+    permissions?: string | number | bigint;
+    /** Guild ID to pre-select in the authorization screen (bot and webhook flows) */
+    guildId?: string;
+    /** Prevents the user from changing the pre-selected guild */
+    disableGuildSelect?: boolean;
+    /** Installation context for the authorization (guild or user install) */
+    integrationType?: DiscordIntegrationType;
+    /** Authorization URL, API base URL and version used instead of Discord's defaults */
+    endpoints?: DiscordEndpoints;
 }
 
 /**
@@ -27,8 +162,12 @@ export interface DiscordLoginConfig extends DiscordLoginParams {
     redirectUri: string;
     /** OAuth2 response type (no longer optional) */
     responseType: 'token' | 'code';
-    /** Array of Discord OAuth2 scopes (no longer optional) */
-    scopes: string[];
+    /** Array of de-duplicated Discord OAuth2 scopes (no longer optional) */
+    scopes: DiscordScope[];
+    /** Whether the OAuth2 `state` parameter is used (no longer optional) */
+    state: boolean;
+    /** Whether PKCE is used (no longer optional) */
+    pkce: boolean;
 }
 
 /**
@@ -63,19 +202,334 @@ export interface User {
 }
 
 /**
- * OAuth2 error response from Discord.
+ * Image format served by the Discord CDN.
  *
- * Returned when the OAuth2 flow fails (user denies access, invalid client, etc.)
+ * @public
+ */
+export type ImageFormat = 'png' | 'webp' | 'gif';
+
+/**
+ * Options for building Discord CDN image URLs.
+ *
+ * @public
+ */
+export interface ImageOptions {
+    /** Image size in pixels: a power of two between 16 and 4096 */
+    size?: 16 | 32 | 64 | 128 | 256 | 512 | 1024 | 2048 | 4096;
+    /** Image format for static images. Defaults to 'png' */
+    format?: ImageFormat;
+    /** Serve animated ('a_' prefixed) hashes as gif. Defaults to true */
+    animated?: boolean;
+    /** Base URL of the Discord CDN. Defaults to `endpoints.cdnBaseUrl`, then 'https://cdn.discordapp.com' */
+    cdnBaseUrl?: string;
+    /** Endpoints whose `cdnBaseUrl` is used when `cdnBaseUrl` is not set */
+    endpoints?: DiscordEndpoints;
+}
+
+/**
+ * Partial guild object returned by Discord's `/users/@me/guilds` endpoint.
  *
  * @public
  */
-export interface ErrorResponse {
-    /** OAuth2 error code (e.g., 'access_denied', 'invalid_request') */
-    error: string;
+export interface PartialGuild {
+    /** Guild ID (snowflake) */
+    id: string;
+    /** Guild name */
+    name: string;
+    /** Icon hash for constructing icon URLs */
+    icon: string | null;
+    /** Banner hash for constructing banner URLs */
+    banner: string | null;
+    /** Whether the current user owns the guild */
+    owner: boolean;
+    /** Current user's permissions bitfield in the guild, as a string */
+    permissions: string;
+    /** Enabled guild features */
+    features: string[];
+    /** Approximate number of members (present when requested with `withCounts`) */
+    approximate_member_count?: number;
+    /** Approximate number of online members (present when requested with `withCounts`) */
+    approximate_presence_count?: number;
+}
+
+/**
+ * Rate-limit information from Discord's `X-RateLimit-*` response headers.
+ *
+ * @public
+ */
+export interface RateLimitInfo {
+    /** Number of requests that can be made in the current window */
+    limit?: number;
+    /** Number of remaining requests in the current window */
+    remaining?: number;
+    /** Epoch time in seconds at which the rate limit resets */
+    reset?: number;
+    /** Seconds until the rate limit resets */
+    resetAfter?: number;
+    /** Rate limit bucket identifier */
+    bucket?: string;
+    /** Whether the global rate limit was hit */
+    global?: boolean;
+    /** Rate limit scope ('user', 'global' or 'shared') */
+    scope?: string;
+}
+
+/**
+ * Retry policy for Discord API requests.
+ *
+ * @public
+ */
+export interface RetryOptions {
+    /** Maximum number of retries after the first attempt. Defaults to 2 */
+    retries?: number;
+    /** Longest wait in milliseconds the client accepts before giving up on a retry. Defaults to 10000 */
+    maxDelay?: number;
+    /** Base delay in milliseconds for exponential backoff on 5xx responses. Defaults to 500 */
+    baseDelay?: number;
+}
+
+/**
+ * Options shared by all Discord API helpers.
+ *
+ * @public
+ */
+export interface ApiRequestOptions {
+    /** Retry policy for 429 and transient 5xx responses, or false to disable retries */
+    retry?: RetryOptions | false;
+    /** Aborts the request, including pending retries. The helper then rejects with the abort reason */
+    signal?: AbortSignal;
+    /** API base URL and version used instead of Discord's defaults */
+    endpoints?: DiscordEndpoints;
+}
+
+/**
+ * Options for fetching the current user's guilds.
+ *
+ * @public
+ */
+export interface FetchGuildsOptions extends ApiRequestOptions {
+    /** Return guilds before this guild ID */
+    before?: string;
+    /** Return guilds after this guild ID */
+    after?: string;
+    /** Maximum number of guilds to return (1-200) */
+    limit?: number;
+    /** Include approximate member and presence counts */
+    withCounts?: boolean;
+}
+
+/**
+ * Guild member object returned by Discord's `/users/@me/guilds/{guild.id}/member` endpoint.
+ *
+ * @public
+ */
+export interface GuildMember {
+    /** The member's user */
+    user?: User;
+    /** Guild nickname */
+    nick: string | null;
+    /** Guild-specific avatar hash */
+    avatar: string | null;
+    /** Guild-specific banner hash */
+    banner?: string | null;
+    /** Role IDs of the member */
+    roles: string[];
+    /** ISO8601 timestamp of when the user joined the guild */
+    joined_at: string;
+    /** ISO8601 timestamp of when the user started boosting the guild */
+    premium_since?: string | null;
+    /** Whether the user is deafened in voice channels */
+    deaf: boolean;
+    /** Whether the user is muted in voice channels */
+    mute: boolean;
+    /** Guild member flags bitfield */
+    flags: number;
+    /** Whether the user has not yet passed the membership screening */
+    pending?: boolean;
+    /** ISO8601 timestamp until which the user is timed out */
+    communication_disabled_until?: string | null;
+}
+
+/**
+ * Third-party account connection returned by Discord's `/users/@me/connections` endpoint.
+ *
+ * @public
+ */
+export interface Connection {
+    /** Account ID on the connected service */
+    id: string;
+    /** Account username on the connected service */
+    name: string;
+    /** Connected service (e.g. 'github', 'twitch', 'steam') */
+    type: string;
+    /** Whether the connection is revoked */
+    revoked?: boolean;
+    /** Whether the connection is verified */
+    verified: boolean;
+    /** Whether friend sync is enabled */
+    friend_sync: boolean;
+    /** Whether activities from this connection are shown in presence updates */
+    show_activity: boolean;
+    /** Whether the connection has a corresponding third-party OAuth2 token */
+    two_way_link: boolean;
+    /** Visibility of the connection: 0 only the user, 1 everyone */
+    visibility: 0 | 1;
+}
+
+/**
+ * Error codes Discord returns from the OAuth2 authorize and token endpoints (RFC 6749).
+ *
+ * @public
+ */
+export type DiscordOAuthErrorCode =
+    | 'invalid_request'
+    | 'unauthorized_client'
+    | 'access_denied'
+    | 'unsupported_response_type'
+    | 'invalid_scope'
+    | 'server_error'
+    | 'temporarily_unavailable'
+    | 'invalid_grant'
+    | 'invalid_client'
+    | 'unsupported_grant_type';
+
+/**
+ * Error codes produced by this library.
+ *
+ * - `invalid_token_response`: token callback or token endpoint response without an access token
+ * - `invalid_state`: missing or mismatched OAuth2 state
+ * - `popup_blocked` / `popup_closed`: popup could not be opened / was closed by the user
+ * - `api_error`: a Discord API request failed
+ * - `network_error`: a request failed before Discord responded
+ * - `callback_error`: any other failure while processing the callback
+ * - `unknown_error`: Discord reported an error without an error code
+ *
+ * @public
+ */
+export type LibraryErrorCode =
+    | 'invalid_token_response'
+    | 'invalid_state'
+    | 'popup_blocked'
+    | 'popup_closed'
+    | 'api_error'
+    | 'network_error'
+    | 'callback_error'
+    | 'unknown_error';
+
+/**
+ * Known error codes of `ErrorResponse`.
+ *
+ * @public
+ */
+export type ErrorCode = DiscordOAuthErrorCode | LibraryErrorCode;
+
+/**
+ * Where an error originated.
+ *
+ * - `authorization`: Discord's authorization screen or the login popup (e.g. the user denied access)
+ * - `network`: a request could not reach Discord
+ * - `api`: a Discord API request was rejected
+ * - `state`: OAuth2 state verification failed
+ * - `callback`: the callback could not be processed
+ *
+ * @public
+ */
+export type ErrorSource = 'authorization' | 'network' | 'api' | 'state' | 'callback';
+
+/**
+ * Fields shared by all error responses.
+ *
+ * @public
+ */
+export interface ErrorResponseBase {
     /** Human-readable error description */
     description: string;
+    /** Underlying error, when the failure was caused by a thrown error */
+    cause?: unknown;
 }
 
+/**
+ * Error reported by Discord's authorization screen, or a login popup that was blocked or closed.
+ *
+ * @public
+ */
+export interface AuthorizationErrorResponse extends ErrorResponseBase {
+    source: 'authorization';
+    /** OAuth2 error code reported by Discord (possibly one this library does not know), or a popup error */
+    error: DiscordOAuthErrorCode | 'popup_blocked' | 'popup_closed' | 'unknown_error' | (string & {});
+}
+
+/**
+ * Request that could not reach Discord.
+ *
+ * @public
+ */
+export interface NetworkErrorResponse extends ErrorResponseBase {
+    source: 'network';
+    error: 'network_error';
+    /** Always 0, since no response was received */
+    status: 0;
+}
+
+/**
+ * Discord API or token request that Discord rejected.
+ *
+ * @public
+ */
+export interface ApiErrorResponse extends ErrorResponseBase {
+    source: 'api';
+    /** `api_error` for API requests; the OAuth2 error code reported by Discord for token requests */
+    error: DiscordOAuthErrorCode | 'api_error' | 'invalid_token_response' | 'unknown_error' | (string & {});
+    /** HTTP status of the failed request */
+    status: number;
+    /** Discord JSON error code of the failed API request (e.g. 50025 for an invalid OAuth2 token) */
+    discordCode?: number;
+    /** Seconds to wait before retrying, when Discord rate limited the request */
+    retryAfter?: number;
+}
+
+/**
+ * OAuth2 state verification failure.
+ *
+ * @public
+ */
+export interface StateErrorResponse extends ErrorResponseBase {
+    source: 'state';
+    error: 'invalid_state';
+}
+
+/**
+ * Callback that could not be processed.
+ *
+ * @public
+ */
+export interface CallbackErrorResponse extends ErrorResponseBase {
+    source: 'callback';
+    error: 'invalid_token_response' | 'callback_error';
+}
+
+/**
+ * Error passed to `onFailure` and returned by `loginWithPopup`.
+ *
+ * Discriminated by `source`: checking it (or using a guard such as `isApiError`) narrows `error`
+ * to the codes of that source and exposes source-specific fields such as `status`.
+ *
+ * @example
+ * ```ts
+ * if (error.source === 'api' && error.status === 429) {
+ *   setTimeout(retry, (error.retryAfter ?? 1) * 1000);
+ * }
+ * ```
+ *
+ * @public
+ */
+export type ErrorResponse =
+    | AuthorizationErrorResponse
+    | NetworkErrorResponse
+    | ApiErrorResponse
+    | StateErrorResponse
+    | CallbackErrorResponse;
+
 /**
  * OAuth2 authorization code response from Discord.
  *
@@ -87,6 +541,14 @@ export interface ErrorResponse {
 export interface CodeResponse {
     /** Authorization code to exchange for access token */
     code: string;
+    /** Guild the bot was added to (present for 'bot' scope authorizations) */
+    guild_id?: string;
+    /** Permissions bitfield granted to the bot (present for 'bot' scope authorizations) */
+    permissions?: string;
+    /** PKCE code verifier to send with the code when exchanging it for a token (present when `pkce` is enabled) */
+    code_verifier?: string;
+    /** Application payload embedded in the OAuth2 state when the login was started */
+    payload?: unknown;
 }
 
 /**
@@ -108,6 +570,38 @@ export interface TokenResponse {
     scope: string[];
     /** User profile data (added by this library when fetched) */
     user?: User;
+    /** User's guilds (added by this library when `autoFetch` is enabled and the 'guilds' scope was granted) */
+    guilds?: PartialGuild[];
+    /** User's connections (added by this library when `autoFetch` is enabled and the 'connections' scope was granted) */
+    connections?: Connection[];
+    /** Application payload embedded in the OAuth2 state when the login was started */
+    payload?: unknown;
+}
+
+/**
+ * Persisted token session created after a successful token flow login.
+ *
+ * @public
+ */
+export interface DiscordSession {
+    /** Token response the session was created from (without the user, see `user`) */
+    token: Omit<TokenResponse, 'user'>;
+    /** User profile fetched after login */
+    user?: User;
+    /** Absolute expiry time of the access token, in milliseconds since the epoch */
+    expiresAt: number;
+}
+
+/**
+ * OAuth2 token response from Discord's `/oauth2/token` endpoint.
+ *
+ * Returned by the server-side `exchangeCode` and `refreshToken` functions of `react-discord-login/server`.
+ *
+ * @public
+ */
+export interface RefreshableTokenResponse extends TokenResponse {
+    /** Refresh token used to obtain a new access token once it expires */
+    refresh_token: string;
 }
 
 /**
@@ -128,6 +622,64 @@ export type OnFailureFunc = (error: ErrorResponse) => Promise<void> | void;
  */
 export type OnSuccessFunc = (response: CodeResponse | TokenResponse) => Promise<void> | void;
 
+/**
+ * Callback function type for token expiry events.
+ *
+ * @param session - Session whose access token is about to expire or expired
+ *
+ * @public
+ */
+export type OnTokenExpiryFunc = (session: DiscordSession) => Promise<void> | void;
+
+/**
+ * Options for tracking the expiry of the token session.
+ *
+ * @public
+ */
+export interface TokenExpiryOptions {
+    /** Milliseconds before the expiry at which `onTokenExpiring` fires and `refresh` runs. Defaults to 60000 */
+    leadTime?: number;
+    /**
+     * Returns a fresh token (e.g. from your backend's `refreshToken`) replacing the expiring session,
+     * or null to let it expire. The user of the expiring session is kept unless the token has one.
+     * With `sync`, it runs in a single hook instance across the page and the other tabs
+     */
+    refresh?: (session: DiscordSession) => Promise<TokenResponse | null> | TokenResponse | null;
+    /** Redirect to Discord with `login()` once the token expired, in a single hook instance with `sync`. Defaults to false */
+    relogin?: boolean;
+}
+
+/**
+ * Access to the current URL used by `useDiscordLogin` to detect callbacks, clean up the URL and
+ * navigate back after login.
+ *
+ * The default adapter reads `window.location` and calls `history.replaceState`. Use a router
+ * adapter (`createReactRouterLocation`, `createNextRouterLocation`, `createTanStackRouterLocation`)
+ * so the router's navigation state stays in sync, or `createMemoryLocation` in tests.
+ *
+ * @public
+ */
+export interface LocationAdapter {
+    /** Returns the absolute URL of the current page, or an empty string when there is none (SSR) */
+    getUrl: () => string;
+    /** Replaces the current history entry with a same-origin path (`pathname + search + hash`) */
+    replace: (path: string) => void;
+    /** Navigates to an absolute URL on another origin (the Discord authorization page) to start a login */
+    assign: (url: string) => void;
+    /** Calls `listener` whenever the URL changes. Returns a function removing the listener */
+    subscribe: (listener: () => void) => () => void;
+}
+
+/**
+ * In-memory `LocationAdapter` created by `createMemoryLocation`, for tests and non-browser environments.
+ *
+ * @public
+ */
+export interface MemoryLocationAdapter extends LocationAdapter {
+    /** Navigates to a URL (absolute, or relative to the current one) and notifies subscribers */
+    navigate: (url: string) => void;
+}
+
 /**
  * Complete parameters for the useDiscordLogin hook.
  *
@@ -136,25 +688,127 @@ export type OnSuccessFunc = (response: CodeResponse | TokenResponse) => Promise<
  * @public
  */
 export type UseDiscordLoginParams = DiscordLoginParams & {
+    /** Persist the token and user after a token flow login, or false to disable. Defaults to in-memory */
+    session?: boolean | SessionOptions;
+    /** After a token login, also fetch guilds and connections when their scopes were granted. Defaults to false */
+    autoFetch?: boolean;
+    /** Reads and updates the current URL and redirects to Discord. Defaults to `window.location` and `history` */
+    location?: LocationAdapter;
     /** Called when OAuth2 flow completes successfully */
     onSuccess?: OnSuccessFunc;
     /** Called when OAuth2 flow fails or encounters errors */
     onFailure?: OnFailureFunc;
+    /** Called `tokenExpiry.leadTime` before the access token of the session expires */
+    onTokenExpiring?: OnTokenExpiryFunc;
+    /** Called when the access token of the session expired; the session is cleared first */
+    onTokenExpired?: OnTokenExpiryFunc;
+    /** Lead time, refresh callback and re-login behavior of the token expiry tracking */
+    tokenExpiry?: TokenExpiryOptions;
+    /**
+     * Synchronize session logins, logouts and token refreshes with the other tabs of the same origin.
+     * Only applies when `session` is enabled. Without BroadcastChannel, logins and refreshes only reach
+     * other tabs whose session storage is shared (`'localStorage'`). Defaults to true
+     */
+    sync?: boolean;
 };
 
+/**
+ * Options for the popup login flow.
+ *
+ * @public
+ */
+export interface PopupOptions {
+    /** Popup window width in pixels. Defaults to 500 */
+    width?: number;
+    /** Popup window height in pixels. Defaults to 750 */
+    height?: number;
+    /** Interval in milliseconds used to detect that the user closed the popup. Defaults to 500 */
+    pollInterval?: number;
+}
+
+/**
+ * Options for the redirect login started by `login()`.
+ *
+ * @public
+ */
+export interface LoginOptions {
+    /**
+     * Same-origin path (or URL) to navigate to after a successful login. Defaults to the current page.
+     * Targets on other origins are ignored to prevent open redirects
+     */
+    returnTo?: string;
+    /** JSON-serializable application data embedded in the state and returned in `onSuccess` */
+    payload?: unknown;
+}
+
+/**
+ * Status of the login flow driven by `useDiscordLogin`.
+ *
+ * - `idle`: no login in progress, or `reset()` was called
+ * - `redirecting`: the user is being sent to, or is on, Discord's authorization page
+ * - `processing`: a callback is being verified and, for the token flow, the user is being fetched
+ * - `success`: the last login completed; `code` or `token` and `user` are set
+ * - `error`: the last login failed; `error` is set
+ *
+ * @public
+ */
+export type DiscordLoginStatus = 'idle' | 'redirecting' | 'processing' | 'success' | 'error';
+
+/**
+ * Outcome of the last login handled by `useDiscordLogin`.
+ *
+ * @public
+ */
+export interface DiscordLoginState {
+    /** Current status of the login flow */
+    status: DiscordLoginStatus;
+    /** User fetched by the last token flow login */
+    user: User | null;
+    /** Token response of the last token flow login, including `user` */
+    token: TokenResponse | null;
+    /** Code response of the last code flow login */
+    code: CodeResponse | null;
+    /** Error of the last failed login */
+    error: ErrorResponse | null;
+}
+
 /**
  * Type definition for the useDiscordLogin hook function.
  *
  * @param params - Hook configuration parameters
- * @returns Hook return object with buildUrl function and loading state
+ * @returns Hook return object with buildUrl function, login status and result
  *
  * @public
  */
-export type UseDiscordLogin = (params: UseDiscordLoginParams) => {
-    /** Function to generate Discord OAuth2 authorization URL */
-    buildUrl: () => string;
-    /** Whether OAuth2 callback is currently being processed */
+export type UseDiscordLogin = (params: UseDiscordLoginParams) => DiscordLoginState & {
+    /**
+     * Function to generate Discord OAuth2 authorization URL.
+     * Starts a new login attempt: the optional payload is embedded in the state and returned in `onSuccess`.
+     */
+    buildUrl: (payload?: unknown) => string;
+    /**
+     * Redirects to Discord to log in. After a successful callback, the hook navigates back to
+     * `returnTo` (defaults to the page `login()` was called from).
+     */
+    login: (options?: LoginOptions) => void;
+    /**
+     * Opens the authorization URL in a popup instead of navigating away.
+     * Resolves with the processed callback response once the popup reports back,
+     * after `onSuccess`/`onFailure` have been called.
+     */
+    loginWithPopup: (options?: PopupOptions, payload?: unknown) => Promise<CallbackResponse>;
+    /** Whether a login is in progress (`status` is 'redirecting' or 'processing') */
     isLoading: boolean;
+    /** Cancels a login in progress, returns to 'idle' and clears `user`, `token`, `code` and `error`. Keeps the session */
+    reset: () => void;
+    /** Current token session, or null when logged out or expired. Updated on logins, logouts and token refreshes */
+    session: DiscordSession | null;
+    /** Reads the stored token session, or null when logged out or expired. Stable across renders */
+    getSession: () => DiscordSession | null;
+    /** Whether a non-expired token session exists */
+    isAuthenticated: boolean;
+    /** Clears the token session and resets the login state to 'idle' */
+    logout: () => void;
 };
 
 /**
@@ -174,13 +828,29 @@ export type CallbackResponse = {
     token?: TokenResponse;
     /** Code data (present when type === 'code') */
     code?: CodeResponse;
+    /** OAuth2 state parameter returned by Discord, if any */
+    state?: string;
 };
 
+/**
+ * Extra per-login parameters appended to the authorization URL.
+ *
+ * @internal
+ */
+export interface AuthorizeUrlExtras {
+    /** OAuth2 state parameter */
+    state?: string;
+    /** PKCE S256 code challenge */
+    codeChallenge?: string;
+}
+
 /**
  * Function type for parsing OAuth2 callback responses.
  *
- * @returns Parsed callback response from current URL
+ * @param url - Callback URL to parse, defaults to the current page URL
+ *
+ * @returns Parsed callback response from the URL
  *
  * @internal
  */
-export type GetCallbackResponseFunc = () => CallbackResponse;
+export type GetCallbackResponseFunc = (url?: string) => CallbackResponse;
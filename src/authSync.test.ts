@@ -0,0 +1,134 @@
+import { afterEach, beforeEach, describe, expect, it, mock } from 'bun:test';
+import {
+    AUTH_SYNC_STORAGE_KEY,
+    type AuthSyncMessage,
+    createAuthSyncSource,
+    publishAuthEvent,
+    subscribeToAuthEvents,
+} from './authSync.js';
+import { createSession } from './session.js';
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const loginMessage: AuthSyncMessage = {
+    type: 'login',
+    key: 'discord_session',
+    source: 'tab-a',
+    session: createSession({ token_type: 'Bearer', access_token: 'token', expires_in: 3600, scope: ['identify'] }),
+};
+
+describe('createAuthSyncSource', () => {
+    it('should create unique sources', () => {
+        expect(createAuthSyncSource()).not.toBe(createAuthSyncSource());
+    });
+});
+
+describe('auth sync over BroadcastChannel', () => {
+    it('should deliver published events to subscribers', async () => {
+        const listener = mock();
+        const unsubscribe = subscribeToAuthEvents(listener);
+
+        publishAuthEvent(loginMessage);
+        publishAuthEvent({ type: 'logout', key: 'discord_session', source: 'tab-a' });
+        await wait(20);
+        unsubscribe();
+
+        expect(listener).toHaveBeenCalledTimes(2);
+        expect(listener.mock.calls[0][0]).toEqual(loginMessage);
+        expect(listener.mock.calls[1][0].type).toBe('logout');
+    });
+
+    it('should stop delivering events after unsubscribing', async () => {
+        const listener = mock();
+        subscribeToAuthEvents(listener)();
+
+        publishAuthEvent(loginMessage);
+        await wait(20);
+
+        expect(listener).not.toHaveBeenCalled();
+    });
+
+    it('should ignore messages that are not auth events', async () => {
+        const listener = mock();
+        const unsubscribe = subscribeToAuthEvents(listener);
+
+        const channel = new BroadcastChannel('react-discord-login:auth');
+        channel.postMessage({ type: 'login', key: 'discord_session' });
+        channel.close();
+        await wait(20);
+        unsubscribe();
+
+        expect(listener).not.toHaveBeenCalled();
+    });
+});
+
+describe('auth sync over storage events', () => {
+    const originalBroadcastChannel = globalThis.BroadcastChannel;
+    const originalWindow = globalThis.window;
+
+    beforeEach(() => {
+        // Browsers without BroadcastChannel
+        globalThis.BroadcastChannel = undefined as unknown as typeof BroadcastChannel;
+        globalThis.window = document.defaultView as unknown as Window & typeof globalThis;
+    });
+
+    afterEach(() => {
+        globalThis.BroadcastChannel = originalBroadcastChannel;
+        globalThis.window = originalWindow;
+    });
+
+    const dispatchStorageEvent = (key: string | null, newValue: string | null) => {
+        window.dispatchEvent(Object.assign(new Event('storage'), { key, newValue }));
+    };
+
+    it('should write the event without the session to localStorage and remove it right away', () => {
+        const setItem = mock();
+        const removeItem = mock();
+        globalThis.window = { localStorage: { setItem, removeItem } } as unknown as Window & typeof globalThis;
+
+        publishAuthEvent(loginMessage);
+
+        expect(setItem).toHaveBeenCalledTimes(1);
+        expect(setItem.mock.calls[0][0]).toBe(AUTH_SYNC_STORAGE_KEY);
+        expect(JSON.parse(setItem.mock.calls[0][1])).toEqual({
+            key: 'discord_session',
+            source: 'tab-a',
+            type: 'login',
+        });
+        expect(setItem.mock.calls[0][1]).not.toContain('token');
+        expect(removeItem).toHaveBeenCalledWith(AUTH_SYNC_STORAGE_KEY);
+    });
+
+    it('should deliver events written by other tabs', () => {
+        const listener = mock();
+        const unsubscribe = subscribeToAuthEvents(listener);
+
+        dispatchStorageEvent(AUTH_SYNC_STORAGE_KEY, JSON.stringify(loginMessage));
+        // The removal of the event and unrelated keys are ignored
+        dispatchStorageEvent(AUTH_SYNC_STORAGE_KEY, null);
+        dispatchStorageEvent('other_key', JSON.stringify(loginMessage));
+        dispatchStorageEvent(AUTH_SYNC_STORAGE_KEY, 'not json');
+        unsubscribe();
+        dispatchStorageEvent(AUTH_SYNC_STORAGE_KEY, JSON.stringify(loginMessage));
+
+        expect(listener).toHaveBeenCalledTimes(1);
+        expect(listener.mock.calls[0][0]).toEqual(loginMessage);
+    });
+
+    it('should deliver published events to the subscribers of the same page', async () => {
+        const listener = mock();
+        const unsubscribedListener = mock();
+        const unsubscribe = subscribeToAuthEvents(listener);
+        subscribeToAuthEvents(unsubscribedListener)();
+
+        publishAuthEvent(loginMessage);
+        // Delivered asynchronously, like a BroadcastChannel message
+        expect(listener).not.toHaveBeenCalled();
+        await wait(20);
+        unsubscribe();
+
+        expect(listener).toHaveBeenCalledTimes(1);
+        expect(listener.mock.calls[0][0]).toEqual(loginMessage);
+        expect(unsubscribedListener).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,171 @@
+import type { DiscordSession } from './DiscordLoginTypes.js';
+
+/**
+ * BroadcastChannel name used to synchronize auth events between tabs.
+ *
+ * @internal
+ */
+export const AUTH_SYNC_CHANNEL = 'react-discord-login:auth';
+
+/**
+ * localStorage key written to broadcast auth events through `storage` events when BroadcastChannel is unavailable.
+ *
+ * @internal
+ */
+export const AUTH_SYNC_STORAGE_KEY = 'react-discord-login:auth_event';
+
+/**
+ * Auth event shared between tabs.
+ *
+ * @internal
+ */
+export type AuthSyncMessage = {
+    /** Storage key of the session the event applies to */
+    key: string;
+    /** ID of the hook instance that published the event */
+    source: string;
+} & (
+    | {
+          type: 'login' | 'refresh';
+          /** New session; left out of `storage` events, whose receivers re-read the session from storage */
+          session?: DiscordSession;
+      }
+    | { type: 'logout' }
+);
+
+const isAuthSyncMessage = (data: unknown): data is AuthSyncMessage => {
+    const message = data as AuthSyncMessage | null;
+    return (
+        typeof message === 'object' &&
+        message !== null &&
+        typeof message.key === 'string' &&
+        typeof message.source === 'string' &&
+        (message.type === 'logout' ||
+            ((message.type === 'login' || message.type === 'refresh') &&
+                (message.session === undefined || typeof message.session === 'object')))
+    );
+};
+
+const hasBroadcastChannel = (): boolean => typeof BroadcastChannel !== 'undefined';
+
+// Subscribers of this page without BroadcastChannel, which storage events (fired in the other tabs only) do not reach
+const localListeners = new Set<(message: AuthSyncMessage) => void>();
+
+const getLocalStorage = (): Storage | null => {
+    try {
+        return typeof window !== 'undefined' && window.localStorage ? window.localStorage : null;
+    } catch {
+        // noop: accessing localStorage can throw when storage is disabled
+        return null;
+    }
+};
+
+/**
+ * Creates a unique ID for a hook instance, used to ignore the events it published itself.
+ *
+ * @internal
+ */
+export const createAuthSyncSource = (): string => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+
+/**
+ * Broadcasts an auth event to the other tabs (and the other hook instances of this tab).
+ *
+ * Uses BroadcastChannel when available. Otherwise the event is written to (and immediately removed from)
+ * localStorage, which fires a `storage` event in the other tabs of the same origin, and delivered to the
+ * subscribers of this page directly, asynchronously like a BroadcastChannel message. The session is left
+ * out of the localStorage copy, so the access token is never written there unless the session itself is.
+ *
+ * @param message - Event to broadcast
+ *
+ * @internal
+ */
+export const publishAuthEvent = (message: AuthSyncMessage): void => {
+    if (hasBroadcastChannel()) {
+        const channel = new BroadcastChannel(AUTH_SYNC_CHANNEL);
+        channel.postMessage(message);
+        channel.close();
+        return;
+    }
+
+    const serialized = JSON.stringify(message);
+    const listeners = Array.from(localListeners);
+    setTimeout(() => {
+        for (const listener of listeners) {
+            // Skip subscribers that unsubscribed in the meantime
+            if (localListeners.has(listener)) {
+                listener(JSON.parse(serialized) as AuthSyncMessage);
+            }
+        }
+    }, 0);
+
+    const storage = getLocalStorage();
+    if (!storage) {
+        return;
+    }
+    const { key, source, type } = message;
+    try {
+        storage.setItem(AUTH_SYNC_STORAGE_KEY, JSON.stringify({ key, source, type }));
+        storage.removeItem(AUTH_SYNC_STORAGE_KEY);
+    } catch {
+        // noop: storage is full or disabled
+    }
+};
+
+/**
+ * Listens to auth events broadcast by `publishAuthEvent`.
+ *
+ * @param listener - Called with each valid event
+ *
+ * @returns Function removing the listener
+ *
+ * @example
+ * ```ts
+ * const unsubscribe = subscribeToAuthEvents((message) => {
+ *   if (message.type === 'logout') {
+ *     setSession(null);
+ *   }
+ * });
+ * ```
+ *
+ * @internal
+ */
+export const subscribeToAuthEvents = (listener: (message: AuthSyncMessage) => void): (() => void) => {
+    if (hasBroadcastChannel()) {
+        const channel = new BroadcastChannel(AUTH_SYNC_CHANNEL);
+        channel.onmessage = (event: MessageEvent) => {
+            if (isAuthSyncMessage(event.data)) {
+                listener(event.data);
+            }
+        };
+        return () => {
+            channel.close();
+        };
+    }
+
+    if (typeof window === 'undefined') {
+        return () => {};
+    }
+
+    const handleStorage = (event: StorageEvent) => {
+        // The removal that follows each event fires a second storage event without a value
+        if (event.key !== AUTH_SYNC_STORAGE_KEY || !event.newValue) {
+            return;
+        }
+        try {
+            const message: unknown = JSON.parse(event.newValue);
+            if (isAuthSyncMessage(message)) {
+                listener(message);
+            }
+        } catch {
+            // noop: not an auth event
+        }
+    };
+    // Wrapped, so subscribing the same listener twice creates two subscriptions
+    const handleLocal = (message: AuthSyncMessage) => listener(message);
+    window.addEventListener('storage', handleStorage);
+    localListeners.add(handleLocal);
+    return () => {
+        window.removeEventListener('storage', handleStorage);
+        localListeners.delete(handleLocal);
+    };
+};
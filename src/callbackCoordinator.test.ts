@@ -0,0 +1,110 @@
+import { afterEach, describe, expect, it, mock, spyOn } from 'bun:test';
+import { claimCallback, getCallbackKey, resetCallbackClaims } from './callbackCoordinator.js';
+import type { CallbackResponse } from './DiscordLoginTypes.js';
+
+const nextTask = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe('getCallbackKey', () => {
+    it('should key callbacks by code, token or state', () => {
+        expect(getCallbackKey({ type: 'code', code: { code: 'abc' } })).toBe('code:abc');
+        expect(
+            getCallbackKey({
+                type: 'token',
+                token: { access_token: 'xyz', token_type: 'Bearer', expires_in: 3600, scope: ['identify'] },
+            })
+        ).toBe('token:xyz');
+        expect(
+            getCallbackKey({
+                type: 'error',
+                state: 'st',
+                error: { error: 'access_denied', description: 'denied', source: 'authorization' },
+            })
+        ).toBe('error:st:access_denied:denied');
+        expect(getCallbackKey({ type: null })).toBeNull();
+    });
+});
+
+describe('claimCallback', () => {
+    const result: CallbackResponse = { type: 'code', code: { code: 'abc' } };
+
+    afterEach(() => {
+        resetCallbackClaims();
+    });
+
+    it('should process a callback once and share the result', async () => {
+        const process = mock(async () => result);
+
+        const first = claimCallback('code:abc', process);
+        const second = claimCallback('code:abc', process);
+
+        expect(await first.promise).toBe(result);
+        expect(await second.promise).toBe(result);
+        expect(process).toHaveBeenCalledTimes(1);
+
+        // Settled callbacks are not processed again
+        expect(await claimCallback('code:abc', process).promise).toBe(result);
+        expect(process).toHaveBeenCalledTimes(1);
+    });
+
+    it('should keep processing when a subscriber re-subscribes before the next task', async () => {
+        let signal: AbortSignal | undefined;
+        const process = mock(async (processSignal: AbortSignal) => {
+            signal = processSignal;
+            await nextTask();
+            await nextTask();
+            return result;
+        });
+
+        // StrictMode: mount, unmount and remount in the same task
+        claimCallback('code:abc', process).release();
+        const remounted = claimCallback('code:abc', process);
+
+        expect(await remounted.promise).toBe(result);
+        expect(signal?.aborted).toBe(false);
+        expect(process).toHaveBeenCalledTimes(1);
+    });
+
+    it('should abort processing once every subscriber released it', async () => {
+        let signal: AbortSignal | undefined;
+        const process = mock(async (processSignal: AbortSignal) => {
+            signal = processSignal;
+            await nextTask();
+            await nextTask();
+            return processSignal.aborted ? { type: null } : result;
+        });
+
+        const first = claimCallback('code:abc', process);
+        const second = claimCallback('code:abc', process);
+        first.release();
+        second.release();
+
+        expect(await first.promise).toEqual({ type: null });
+        expect(signal?.aborted).toBe(true);
+
+        // Aborted claims are forgotten rather than shared with later claims
+        expect(await claimCallback('code:abc', process).promise).toBe(result);
+        expect(process).toHaveBeenCalledTimes(2);
+    });
+
+    it('should settle with a callback error when processing throws', async () => {
+        const consoleError = spyOn(console, 'error').mockImplementation(() => {});
+        const process = mock(async (): Promise<CallbackResponse> => {
+            throw new Error('onFailure failed');
+        });
+
+        const subscription = claimCallback('code:abc', process);
+
+        expect(await subscription.promise).toMatchObject({
+            type: 'error',
+            error: { error: 'callback_error', description: 'onFailure failed', source: 'callback' },
+        });
+        expect(consoleError).toHaveBeenCalled();
+
+        // Settled: releasing does not abort it and later claims share its result
+        subscription.release();
+        await nextTask();
+        expect(await claimCallback('code:abc', process).promise).toMatchObject({ type: 'error' });
+        expect(process).toHaveBeenCalledTimes(1);
+        consoleError.mockRestore();
+    });
+});
@@ -0,0 +1,147 @@
+import type { CallbackResponse } from './DiscordLoginTypes.js';
+import { toErrorResponse } from './errors.js';
+
+/**
+ * Shared processing of one OAuth2 callback.
+ *
+ * @internal
+ */
+type CallbackClaim = {
+    promise: Promise<CallbackResponse>;
+    controller: AbortController;
+    subscribers: number;
+    settled: boolean;
+};
+
+/**
+ * Handle of a hook instance waiting for a claimed callback.
+ *
+ * @internal
+ */
+export type CallbackSubscription = {
+    /** Key of the claimed callback, see `getCallbackKey` */
+    key: string;
+    /** Resolves with the processed callback response; never rejects */
+    promise: Promise<CallbackResponse>;
+    /** Stops waiting; the processing is aborted once no subscriber is left */
+    release: () => void;
+};
+
+// Callbacks claimed during this page load, kept after settling so a callback is never processed twice
+const claims = new Map<string, CallbackClaim>();
+
+/**
+ * Derives the key identifying a callback: its code, its access token or, for errors, its state.
+ *
+ * @param response - Parsed callback response
+ *
+ * @returns The callback key, or null when the response is not a callback
+ *
+ * @internal
+ */
+export const getCallbackKey = (response: CallbackResponse): string | null => {
+    if (response.code) {
+        return `code:${response.code.code}`;
+    }
+    if (response.token) {
+        return `token:${response.token.access_token}`;
+    }
+    if (response.error) {
+        return `error:${response.state ?? ''}:${response.error.error}:${response.error.description}`;
+    }
+    return null;
+};
+
+/**
+ * Claims a callback for processing, or joins the processing already claimed for it.
+ *
+ * The first claim of a key runs `process`; every later claim of the same key, from another hook
+ * instance or from the effect re-run of React StrictMode, shares its promise instead. `process`
+ * starts in a microtask so claims made while the same commit is still running its effects (StrictMode
+ * re-runs, sibling hooks) join before the callback parameters are removed from the URL.
+ *
+ * Processing is aborted when every subscriber has released it and none re-subscribed by the next
+ * task, which keeps it alive across the synchronous unmount and remount of StrictMode.
+ *
+ * @param key - Callback key from `getCallbackKey`
+ * @param process - Processes the callback; a rejection is logged and shared as a `callback_error` response
+ *
+ * @returns Subscription to the shared processing
+ *
+ * @example
+ * ```ts
+ * const subscription = claimCallback(getCallbackKey(response), (signal) => processResponse(response, signal));
+ * const result = await subscription.promise;
+ * subscription.release();
+ * ```
+ *
+ * @internal
+ */
+export const claimCallback = (
+    key: string,
+    process: (signal: AbortSignal) => Promise<CallbackResponse>
+): CallbackSubscription => {
+    let claim = claims.get(key);
+    if (!claim) {
+        const controller = new AbortController();
+        const newClaim: CallbackClaim = {
+            controller,
+            subscribers: 0,
+            settled: false,
+            promise: Promise.resolve()
+                .then(() => process(controller.signal))
+                .catch((error: unknown): CallbackResponse => {
+                    // The claim must settle even when processing throws (e.g. in onFailure)
+                    console.error('Discord login callback failed:', error);
+                    return { type: 'error', error: toErrorResponse(error) };
+                })
+                .then((response) => {
+                    newClaim.settled = true;
+                    if (controller.signal.aborted && claims.get(key) === newClaim) {
+                        // Aborted: forget the claim instead of answering later claims with its empty result.
+                        // This does not make the callback processable again: processing already removed its
+                        // parameters from the URL and consumed its state and return target
+                        claims.delete(key);
+                    }
+                    return response;
+                }),
+        };
+        claim = newClaim;
+        claims.set(key, claim);
+    }
+
+    const joined = claim;
+    joined.subscribers += 1;
+    let released = false;
+
+    return {
+        key,
+        promise: joined.promise,
+        release: () => {
+            if (released) {
+                return;
+            }
+            released = true;
+            joined.subscribers -= 1;
+            if (joined.subscribers === 0 && !joined.settled) {
+                setTimeout(() => {
+                    if (joined.subscribers === 0 && !joined.settled) {
+                        joined.controller.abort();
+                        if (claims.get(key) === joined) {
+                            claims.delete(key);
+                        }
+                    }
+                }, 0);
+            }
+        },
+    };
+};
+
+/**
+ * Forgets every claimed callback so the same callback can be processed again.
+ *
+ * @internal
+ */
+export const resetCallbackClaims = (): void => {
+    claims.clear();
+};
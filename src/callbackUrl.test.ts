@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'bun:test';
+import { parseCallbackUrl, stripOAuthParams } from './callbackUrl.js';
+
+describe('parseCallbackUrl', () => {
+    it('should parse code responses with bot authorization parameters', () => {
+        expect(parseCallbackUrl('https://app.com/callback?code=abc&state=xyz&guild_id=123&permissions=8')).toEqual({
+            type: 'code',
+            state: 'xyz',
+            code: { code: 'abc', guild_id: '123', permissions: '8' },
+        });
+    });
+
+    it('should parse token responses from the hash fragment', () => {
+        const url = new URL(
+            'https://app.com/callback#access_token=tok&token_type=Bearer&expires_in=604800&scope=identify%20email'
+        );
+
+        expect(parseCallbackUrl(url)).toEqual({
+            type: 'token',
+            state: undefined,
+            token: { token_type: 'Bearer', access_token: 'tok', expires_in: 604800, scope: ['identify', 'email'] },
+        });
+    });
+
+    it('should parse Discord errors and incomplete token responses', () => {
+        expect(parseCallbackUrl('/callback?error=access_denied&error_description=User%20denied')).toEqual({
+            type: 'error',
+            state: undefined,
+            error: { error: 'access_denied', description: 'User denied', source: 'authorization' },
+        });
+        expect(parseCallbackUrl('/callback#token_type=Bearer').error).toMatchObject({
+            error: 'invalid_token_response',
+            source: 'callback',
+        });
+    });
+
+    it('should return no response for URLs without callback parameters', () => {
+        expect(parseCallbackUrl('https://app.com/settings?tab=profile')).toEqual({ type: null });
+        expect(parseCallbackUrl('')).toEqual({ type: null });
+    });
+});
+
+describe('stripOAuthParams', () => {
+    it('should remove callback parameters and keep other query data', () => {
+        expect(stripOAuthParams('https://app.com/callback?code=abc&state=xyz&lang=en')).toBe(
+            'https://app.com/callback?lang=en'
+        );
+        expect(stripOAuthParams(new URL('https://app.com/callback?code=abc'))).toBe('https://app.com/callback');
+    });
+
+    it('should remove the bot authorization parameters', () => {
+        expect(stripOAuthParams('/callback?code=abc&guild_id=123&permissions=8&lang=en')).toBe('/callback?lang=en');
+    });
+
+    it('should remove callback parameters from the hash fragment', () => {
+        expect(stripOAuthParams('/callback#access_token=abc&token_type=Bearer&expires_in=3600&scope=identify')).toBe(
+            '/callback'
+        );
+        expect(stripOAuthParams('/callback?lang=en#access_token=abc&token_type=Bearer&tab=1')).toBe(
+            '/callback?lang=en#tab=1'
+        );
+    });
+
+    it('should leave URLs without callback parameters untouched', () => {
+        expect(stripOAuthParams('/settings?q=a%20b#top')).toBe('/settings?q=a%20b#top');
+    });
+});
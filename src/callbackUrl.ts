@@ -0,0 +1,223 @@
+import type { CallbackResponse } from './DiscordLoginTypes.js';
+
+/**
+ * Parameters Discord appends to the redirect URI, removed from the URL once the callback is handled.
+ *
+ * @internal
+ */
+const OAUTH_CALLBACK_PARAMS = [
+    'code',
+    'state',
+    'error',
+    'error_description',
+    'access_token',
+    'token_type',
+    'expires_in',
+    'scope',
+    'guild_id',
+    'permissions',
+];
+
+/**
+ * Base used to resolve relative URLs such as `/callback?code=abc`.
+ *
+ * @internal
+ */
+const RELATIVE_URL_BASE = 'http://relative.invalid';
+
+const toUrl = (url: string | URL): URL | null => {
+    try {
+        return new URL(url.toString(), RELATIVE_URL_BASE);
+    } catch {
+        return null;
+    }
+};
+
+/**
+ * Extracts and combines URL parameters from both query string and hash fragment.
+ *
+ * Discord OAuth2 can return parameters in either location depending on the response type:
+ * - 'code' flow: parameters in query string (?code=...)
+ * - 'token' flow: parameters in hash fragment (#access_token=...)
+ *
+ * @param url - Absolute or relative URL to read
+ *
+ * @returns URLSearchParams containing combined parameters from both sources
+ *
+ * @internal
+ */
+export const getCallbackParams = (url: string | URL): URLSearchParams => {
+    const params = new URLSearchParams();
+    const parsed = toUrl(url);
+    if (!parsed) {
+        return params;
+    }
+
+    // Parse query parameters first
+    parsed.searchParams.forEach((value, key) => {
+        params.set(key, value);
+    });
+
+    // Parse hash fragment parameters (these override query values if duplicate keys)
+    const fragment = new URLSearchParams(parsed.hash.slice(1));
+    fragment.forEach((value, key) => {
+        params.set(key, value);
+    });
+
+    return params;
+};
+
+/**
+ * Parses a Discord OAuth2 callback response from a URL.
+ *
+ * Pure counterpart of `getCallbackResponse` that does not read `window`, so callbacks can be
+ * handled on the server (Next.js route handlers, Remix loaders) before React renders. Reads both
+ * query parameters and hash fragments, and handles all three response types: error, code and token.
+ *
+ * @param url - Absolute or relative callback URL
+ *
+ * @returns Parsed callback response object with discriminated union type
+ *
+ * @example
+ * ```ts
+ * // Next.js route handler
+ * export const GET = async (request: Request) => {
+ *   const response = parseCallbackUrl(request.url);
+ *   if (response.type === 'code') {
+ *     const token = await exchangeCode({ clientId, clientSecret, redirectUri, code: response.code.code });
+ *   }
+ * };
+ *
+ * parseCallbackUrl('https://app.com/callback?error=access_denied&error_description=User%20denied');
+ * // { type: 'error', error: { error: 'access_denied', description: 'User denied', source: 'authorization' } }
+ * ```
+ *
+ * @remarks
+ * - Returns `{ type: null }` if no OAuth2 callback parameters are detected or the URL is invalid
+ * - Automatically handles parameter type conversion (strings to numbers for expires_in)
+ * - Splits space-separated scope strings into arrays
+ * - Includes `guild_id` and `permissions` on code responses of bot authorizations
+ * - Includes the returned `state` parameter, to compare with the `state` sent in the authorization URL
+ */
+export const parseCallbackUrl = (url: string | URL): CallbackResponse => {
+    const params = getCallbackParams(url);
+    const error = params.get('error');
+    const error_description = params.get('error_description');
+    const token_type = params.get('token_type');
+    const code = params.get('code');
+    const state = params.get('state') ?? undefined;
+
+    if (error || error_description) {
+        return {
+            type: 'error',
+            state,
+            error: {
+                error: error ?? 'unknown_error',
+                description: error_description ?? '',
+                source: 'authorization',
+            },
+        };
+    }
+
+    if (token_type) {
+        const access_token = params.get('access_token');
+        const expires_in = params.get('expires_in');
+        const scope = params.get('scope');
+
+        // Validate that access_token exists for token responses
+        if (!access_token) {
+            return {
+                type: 'error',
+                state,
+                error: {
+                    error: 'invalid_token_response',
+                    description: 'Token response is missing required access_token parameter',
+                    source: 'callback',
+                },
+            };
+        }
+
+        return {
+            type: 'token',
+            state,
+            token: {
+                token_type,
+                access_token,
+                expires_in: expires_in ? Number(expires_in) : 0,
+                scope: scope ? scope.split(' ') : [],
+            },
+        };
+    }
+
+    if (code) {
+        const guild_id = params.get('guild_id');
+        const permissions = params.get('permissions');
+
+        return {
+            type: 'code',
+            state,
+            code: {
+                code,
+                ...(guild_id ? { guild_id } : {}),
+                ...(permissions ? { permissions } : {}),
+            },
+        };
+    }
+
+    return {
+        type: null,
+    };
+};
+
+/**
+ * Removes the OAuth2 callback parameters from a URL, keeping the path and any other query or
+ * fragment data.
+ *
+ * This is the clean-up `useDiscordLogin` applies after handling a callback. Use it on the server to
+ * redirect to the sanitized URL so codes and tokens do not linger in the address bar or history.
+ *
+ * @param url - Absolute or relative callback URL
+ *
+ * @returns The sanitized URL, absolute when `url` was absolute and `pathname + search + hash` otherwise
+ *
+ * @example
+ * ```ts
+ * stripOAuthParams('https://app.com/callback?code=abc&state=xyz&lang=en');
+ * // 'https://app.com/callback?lang=en'
+ *
+ * stripOAuthParams('/callback#access_token=abc&token_type=Bearer');
+ * // '/callback'
+ * ```
+ */
+export const stripOAuthParams = (url: string | URL): string => {
+    const parsed = toUrl(url);
+    if (!parsed) {
+        return url.toString();
+    }
+
+    // Clean up search params
+    const searchParams = new URLSearchParams(parsed.search);
+    let search = parsed.search;
+    if (OAUTH_CALLBACK_PARAMS.some((param) => searchParams.has(param))) {
+        for (const param of OAUTH_CALLBACK_PARAMS) {
+            searchParams.delete(param);
+        }
+        const sanitizedSearch = searchParams.toString();
+        search = sanitizedSearch ? `?${sanitizedSearch}` : '';
+    }
+
+    // Clean up hash params (Discord OAuth can use hash fragments); other fragments are kept as is
+    const hashParams = new URLSearchParams(parsed.hash.substring(1)); // Remove leading #
+    let hash = parsed.hash;
+    if (OAUTH_CALLBACK_PARAMS.some((param) => hashParams.has(param))) {
+        for (const param of OAUTH_CALLBACK_PARAMS) {
+            hashParams.delete(param);
+        }
+        const sanitizedHash = hashParams.toString();
+        hash = sanitizedHash ? `#${sanitizedHash}` : '';
+    }
+
+    // Reconstruct the URL preserving the pathname and non-OAuth data
+    const path = parsed.pathname + search + hash;
+    return parsed.origin === RELATIVE_URL_BASE ? path : parsed.origin + path;
+};
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'bun:test';
+import { getAvatarUrl, getBannerUrl, getDefaultAvatarUrl, getDisplayName } from './cdn.js';
+
+describe('CDN helpers', () => {
+    const user = {
+        id: '80351110224678912',
+        username: 'nelly',
+        discriminator: '0',
+        global_name: 'Nelly',
+        avatar: '8342729096ea3675442027381ff50dfe',
+        banner: 'a_06c16474723fe537c283b8efa61a30c8',
+    };
+
+    it('should build avatar urls with size and format', () => {
+        expect(getAvatarUrl(user)).toBe(
+            'https://cdn.discordapp.com/avatars/80351110224678912/8342729096ea3675442027381ff50dfe.png'
+        );
+        expect(getAvatarUrl(user, { size: 128, format: 'webp' })).toBe(
+            'https://cdn.discordapp.com/avatars/80351110224678912/8342729096ea3675442027381ff50dfe.webp?size=128'
+        );
+    });
+
+    it('should serve animated hashes as gif unless animation is disabled', () => {
+        const animated = { ...user, avatar: 'a_1269e74af4df7417b13759eae50c83dc' };
+
+        expect(getAvatarUrl(animated)).toEndWith('/a_1269e74af4df7417b13759eae50c83dc.gif');
+        expect(getAvatarUrl(animated, { animated: false, format: 'webp' })).toEndWith(
+            '/a_1269e74af4df7417b13759eae50c83dc.webp'
+        );
+    });
+
+    it('should fall back to png when gif is requested for a static hash', () => {
+        expect(getAvatarUrl(user, { format: 'gif' })).toEndWith('.png');
+    });
+
+    it('should compute default avatars for new and legacy usernames', () => {
+        // (80351110224678912 >> 22) % 6 === 5
+        expect(getDefaultAvatarUrl(user)).toBe('https://cdn.discordapp.com/embed/avatars/5.png');
+        expect(getDefaultAvatarUrl({ ...user, discriminator: '1337' })).toBe(
+            'https://cdn.discordapp.com/embed/avatars/2.png'
+        );
+        expect(getAvatarUrl({ ...user, avatar: null })).toBe('https://cdn.discordapp.com/embed/avatars/5.png');
+    });
+
+    it('should build banner urls and return null without a banner', () => {
+        expect(getBannerUrl(user, { size: 512 })).toBe(
+            'https://cdn.discordapp.com/banners/80351110224678912/a_06c16474723fe537c283b8efa61a30c8.gif?size=512'
+        );
+        expect(getBannerUrl({ ...user, banner: null })).toBeNull();
+    });
+
+    it('should honor a custom CDN base', () => {
+        expect(getAvatarUrl(user, { cdnBaseUrl: 'https://cdn.example.com/discord/' })).toBe(
+            'https://cdn.example.com/discord/avatars/80351110224678912/8342729096ea3675442027381ff50dfe.png'
+        );
+        expect(getDefaultAvatarUrl(user, { cdnBaseUrl: 'https://cdn.example.com' })).toBe(
+            'https://cdn.example.com/embed/avatars/5.png'
+        );
+    });
+
+    it('should use the CDN base of the configured endpoints', () => {
+        const endpoints = { cdnBaseUrl: 'https://cdn-proxy.example.com/' };
+
+        expect(getAvatarUrl(user, { endpoints, size: 64 })).toBe(
+            'https://cdn-proxy.example.com/avatars/80351110224678912/8342729096ea3675442027381ff50dfe.png?size=64'
+        );
+        expect(getBannerUrl(user, { endpoints })).toBe(
+            'https://cdn-proxy.example.com/banners/80351110224678912/a_06c16474723fe537c283b8efa61a30c8.gif'
+        );
+        expect(getDefaultAvatarUrl(user, { endpoints })).toBe('https://cdn-proxy.example.com/embed/avatars/5.png');
+        // An explicit cdnBaseUrl takes precedence
+        expect(getDefaultAvatarUrl(user, { endpoints, cdnBaseUrl: 'https://cdn.example.com' })).toBe(
+            'https://cdn.example.com/embed/avatars/5.png'
+        );
+    });
+
+    it('should pick the display name', () => {
+        expect(getDisplayName(user)).toBe('Nelly');
+        expect(getDisplayName({ ...user, global_name: null })).toBe('nelly');
+        expect(getDisplayName({ ...user, global_name: null, discriminator: '1337' })).toBe('nelly#1337');
+    });
+});
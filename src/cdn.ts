@@ -0,0 +1,116 @@
+import type { ImageOptions, User } from './DiscordLoginTypes.js';
+import { getCdnBaseUrl } from './endpoints.js';
+
+/**
+ * Resolves the CDN base URL of the image options: `cdnBaseUrl`, then `endpoints.cdnBaseUrl`.
+ *
+ * @internal
+ */
+const resolveCdnBaseUrl = ({ cdnBaseUrl, endpoints }: Pick<ImageOptions, 'cdnBaseUrl' | 'endpoints'>): string =>
+    getCdnBaseUrl({ cdnBaseUrl: cdnBaseUrl ?? endpoints?.cdnBaseUrl });
+
+/**
+ * Builds a CDN URL for an image hash, handling animated hashes, format and size.
+ *
+ * @internal
+ */
+const buildImageUrl = (
+    path: string,
+    hash: string,
+    { size, format = 'png', animated = true, ...cdnOptions }: ImageOptions
+): string => {
+    const isAnimated = hash.startsWith('a_');
+    // gif is only available for animated hashes; static hashes fall back to png
+    const extension = isAnimated && animated ? 'gif' : format === 'gif' ? 'png' : format;
+    const query = size ? `?size=${size}` : '';
+    return `${resolveCdnBaseUrl(cdnOptions)}/${path}/${hash}.${extension}${query}`;
+};
+
+/**
+ * Returns the URL of the default avatar Discord shows for users without a custom avatar.
+ *
+ * Users on the new username system (discriminator '0') get `(id >> 22) % 6`; legacy users
+ * get `discriminator % 5`.
+ *
+ * @param user - Discord user
+ * @param options - CDN options (only `cdnBaseUrl` and `endpoints` apply, default avatars are always png)
+ *
+ * @returns Default avatar URL
+ *
+ * @example
+ * ```ts
+ * getDefaultAvatarUrl({ ...user, discriminator: '1337' });
+ * // Returns: 'https://cdn.discordapp.com/embed/avatars/2.png'
+ * ```
+ */
+export const getDefaultAvatarUrl = (
+    user: Pick<User, 'id' | 'discriminator'>,
+    options: Pick<ImageOptions, 'cdnBaseUrl' | 'endpoints'> = {}
+): string => {
+    const index =
+        !user.discriminator || user.discriminator === '0'
+            ? Number((BigInt(user.id) >> BigInt(22)) % BigInt(6))
+            : Number(user.discriminator) % 5;
+    return `${resolveCdnBaseUrl(options)}/embed/avatars/${index}.png`;
+};
+
+/**
+ * Returns the URL of a user's avatar, falling back to the default avatar.
+ *
+ * @param user - Discord user
+ * @param options - Size, format, animation and CDN options
+ *
+ * @returns Avatar URL
+ *
+ * @example
+ * ```ts
+ * getAvatarUrl(user, { size: 128, format: 'webp' });
+ * // Returns: 'https://cdn.discordapp.com/avatars/80351110224678912/8342729096ea3675442027381ff50dfe.webp?size=128'
+ * ```
+ */
+export const getAvatarUrl = (
+    user: Pick<User, 'id' | 'discriminator' | 'avatar'>,
+    options: ImageOptions = {}
+): string =>
+    user.avatar ? buildImageUrl(`avatars/${user.id}`, user.avatar, options) : getDefaultAvatarUrl(user, options);
+
+/**
+ * Returns the URL of a user's profile banner.
+ *
+ * @param user - Discord user
+ * @param options - Size, format, animation and CDN options
+ *
+ * @returns Banner URL, or null when the user has no banner
+ *
+ * @example
+ * ```ts
+ * const banner = getBannerUrl(user, { size: 512 });
+ * ```
+ */
+export const getBannerUrl = (user: Pick<User, 'id' | 'banner'>, options: ImageOptions = {}): string | null =>
+    user.banner ? buildImageUrl(`banners/${user.id}`, user.banner, options) : null;
+
+/**
+ * Returns the name Discord displays for a user.
+ *
+ * Prefers the global display name, then the legacy `username#discriminator` tag, then the username.
+ *
+ * @param user - Discord user
+ *
+ * @returns Display name
+ *
+ * @example
+ * ```ts
+ * getDisplayName({ username: 'nelly', discriminator: '0', global_name: 'Nelly' }); // 'Nelly'
+ * getDisplayName({ username: 'nelly', discriminator: '1337', global_name: null }); // 'nelly#1337'
+ * ```
+ */
+export const getDisplayName = (user: Pick<User, 'username' | 'discriminator' | 'global_name'>): string => {
+    if (user.global_name) {
+        return user.global_name;
+    }
+    if (user.discriminator && user.discriminator !== '0') {
+        return `${user.username}#${user.discriminator}`;
+    }
+    return user.username;
+};
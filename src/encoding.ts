@@ -0,0 +1,48 @@
+/**
+ * Encodes bytes as an unpadded base64url string (RFC 4648 §5).
+ *
+ * @param bytes - Bytes to encode
+ *
+ * @returns base64url string without `=` padding
+ *
+ * @internal
+ */
+export const base64UrlEncode = (bytes: Uint8Array): string => {
+    let binary = '';
+    for (let i = 0; i < bytes.length; i++) {
+        binary += String.fromCharCode(bytes[i]);
+    }
+    return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+/**
+ * Decodes an unpadded base64url string (RFC 4648 §5) into bytes.
+ *
+ * @param value - base64url string, with or without padding
+ *
+ * @returns Decoded bytes
+ *
+ * @throws {Error} When the value is not valid base64
+ *
+ * @internal
+ */
+export const base64UrlDecode = (value: string): Uint8Array => {
+    const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+    const binary = atob(base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), '='));
+    return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+};
+
+/**
+ * Generates a cryptographically random base64url string.
+ *
+ * @param byteLength - Number of random bytes to generate
+ *
+ * @returns base64url encoded random bytes
+ *
+ * @internal
+ */
+export const randomString = (byteLength: number): string => {
+    const bytes = new Uint8Array(byteLength);
+    crypto.getRandomValues(bytes);
+    return base64UrlEncode(bytes);
+};
@@ -0,0 +1,78 @@
+import type { DiscordEndpoints } from './DiscordLoginTypes.js';
+
+/**
+ * Default Discord OAuth2 authorization URL.
+ *
+ * @internal
+ */
+export const DEFAULT_AUTHORIZE_URL = 'https://discord.com/api/oauth2/authorize';
+
+/**
+ * Default base URL of the Discord HTTP API, without a version.
+ *
+ * @internal
+ */
+export const DEFAULT_API_BASE_URL = 'https://discord.com/api';
+
+/**
+ * Default base URL of the Discord CDN.
+ *
+ * @internal
+ */
+export const DEFAULT_CDN_BASE_URL = 'https://cdn.discordapp.com';
+
+const trimTrailingSlashes = (url: string): string => url.replace(/\/+$/, '');
+
+/**
+ * Builds the base URL of API requests: the API base followed by `/v{apiVersion}` when a version is pinned.
+ *
+ * @param endpoints - Endpoint overrides
+ *
+ * @returns API base URL without a trailing slash
+ *
+ * @example
+ * ```ts
+ * getApiBaseUrl({ apiVersion: 10 }); // 'https://discord.com/api/v10'
+ * getApiBaseUrl({ apiBaseUrl: 'https://proxy.example.com/discord/' }); // 'https://proxy.example.com/discord'
+ * ```
+ *
+ * @internal
+ */
+export const getApiBaseUrl = ({ apiBaseUrl = DEFAULT_API_BASE_URL, apiVersion }: DiscordEndpoints = {}): string => {
+    const base = trimTrailingSlashes(apiBaseUrl);
+    return apiVersion === undefined ? base : `${base}/v${apiVersion}`;
+};
+
+/**
+ * Builds the URL of a Discord API or OAuth2 endpoint.
+ *
+ * @param path - Endpoint path starting with '/', e.g. '/users/@me' or '/oauth2/token'
+ * @param endpoints - Endpoint overrides
+ *
+ * @returns Absolute endpoint URL
+ *
+ * @internal
+ */
+export const getApiUrl = (path: string, endpoints?: DiscordEndpoints): string => `${getApiBaseUrl(endpoints)}${path}`;
+
+/**
+ * Returns the OAuth2 authorization URL, without query parameters.
+ *
+ * @param endpoints - Endpoint overrides
+ *
+ * @internal
+ */
+export const getAuthorizeUrl = ({ authorizeUrl = DEFAULT_AUTHORIZE_URL }: DiscordEndpoints = {}): string =>
+    authorizeUrl;
+
+/**
+ * Returns the base URL of CDN images.
+ *
+ * @param endpoints - Endpoint overrides
+ *
+ * @returns CDN base URL without a trailing slash
+ *
+ * @internal
+ */
+export const getCdnBaseUrl = ({ cdnBaseUrl = DEFAULT_CDN_BASE_URL }: DiscordEndpoints = {}): string =>
+    trimTrailingSlashes(cdnBaseUrl);
@@ -0,0 +1,134 @@
+import { describe, expect, it } from 'bun:test';
+import type { ErrorResponse } from './DiscordLoginTypes.js';
+import {
+    DiscordApiError,
+    DiscordConfigError,
+    DiscordError,
+    DiscordTokenError,
+    isAbortError,
+    isApiError,
+    isNetworkError,
+    isPopupBlocked,
+    isStateError,
+    isUserCancelled,
+    toErrorResponse,
+} from './errors.js';
+
+describe('toErrorResponse', () => {
+    it('should map API failures to api_error and keep the details', () => {
+        const cause = new DiscordApiError('Failed to fetch user data: Discord API responded with status: 401 ', {
+            status: 401,
+            code: 0,
+            description: '401: Unauthorized',
+        });
+
+        expect(toErrorResponse(cause)).toEqual({
+            error: 'api_error',
+            description: cause.message,
+            source: 'api',
+            cause,
+            status: 401,
+            discordCode: 0,
+            retryAfter: undefined,
+        });
+    });
+
+    it('should map failed requests to network_error', () => {
+        const cause = new DiscordApiError('Failed to fetch user data: Network error', {
+            status: 0,
+            description: 'Network error',
+        });
+
+        expect(toErrorResponse(cause)).toMatchObject({ error: 'network_error', source: 'network', status: 0 });
+        expect(
+            toErrorResponse(new DiscordTokenError({ error: 'network_error', description: 'Network error' }, 0))
+        ).toMatchObject({ error: 'network_error', source: 'network', status: 0 });
+    });
+
+    it('should keep the OAuth2 error code of token errors', () => {
+        const cause = new DiscordTokenError({ error: 'invalid_grant', description: 'Invalid code' }, 400);
+
+        expect(toErrorResponse(cause)).toMatchObject({ error: 'invalid_grant', source: 'api', status: 400, cause });
+    });
+
+    it('should map anything else to callback_error', () => {
+        const cause = new Error('boom');
+
+        expect(toErrorResponse(cause)).toEqual({
+            error: 'callback_error',
+            description: 'boom',
+            source: 'callback',
+            cause,
+        });
+        expect(toErrorResponse('boom')).toMatchObject({ description: 'Unknown callback error' });
+    });
+});
+
+describe('error guards', () => {
+    const error = (fields: Pick<ErrorResponse, 'error' | 'source'>) =>
+        ({ description: '', ...fields }) as ErrorResponse;
+
+    it('should detect user cancellations', () => {
+        expect(isUserCancelled(error({ error: 'access_denied', source: 'authorization' }))).toBe(true);
+        expect(isUserCancelled(error({ error: 'popup_closed', source: 'authorization' }))).toBe(true);
+        expect(isUserCancelled(error({ error: 'popup_blocked', source: 'authorization' }))).toBe(false);
+    });
+
+    it('should classify errors by source', () => {
+        expect(isStateError(error({ error: 'invalid_state', source: 'state' }))).toBe(true);
+        expect(isNetworkError(error({ error: 'network_error', source: 'network' }))).toBe(true);
+        expect(isApiError(error({ error: 'api_error', source: 'api' }))).toBe(true);
+        expect(isApiError(error({ error: 'network_error', source: 'network' }))).toBe(false);
+        expect(isPopupBlocked(error({ error: 'popup_blocked', source: 'authorization' }))).toBe(true);
+    });
+
+    it('should narrow errors to the fields of their source', () => {
+        const rateLimited = toErrorResponse(
+            new DiscordApiError('Rate limited', {
+                status: 429,
+                description: 'You are being rate limited.',
+                retryAfter: 2,
+            })
+        );
+
+        expect(isApiError(rateLimited) && rateLimited.retryAfter).toBe(2);
+        expect(isNetworkError(rateLimited)).toBe(false);
+    });
+
+    it('should mark token request failures as network or api errors', () => {
+        expect(new DiscordTokenError({ error: 'network_error', description: '' }, 0).source).toBe('network');
+        expect(new DiscordTokenError({ error: 'invalid_client', description: '' }, 401).source).toBe('api');
+    });
+});
+
+describe('error classes', () => {
+    it('should extend DiscordError and keep their own prototype and name', () => {
+        const errors = [
+            new DiscordConfigError('clientId', 'clientId is required'),
+            new DiscordTokenError({ error: 'invalid_grant', description: '' }, 400),
+            new DiscordApiError('Request failed', { status: 500, description: '' }),
+        ];
+
+        for (const error of errors) {
+            expect(error).toBeInstanceOf(DiscordError);
+            expect(error).toBeInstanceOf(Error);
+            expect(Object.getPrototypeOf(error)).toBe(error.constructor.prototype);
+        }
+        expect(errors.map((error) => error.name)).toEqual([
+            'DiscordConfigError',
+            'DiscordTokenError',
+            'DiscordApiError',
+        ]);
+    });
+});
+
+describe('isAbortError', () => {
+    it('should detect abort rejections', () => {
+        const controller = new AbortController();
+        controller.abort();
+
+        expect(isAbortError(controller.signal.reason)).toBe(true);
+        expect(isAbortError(new Error('boom'))).toBe(false);
+        expect(isAbortError(undefined)).toBe(false);
+    });
+});
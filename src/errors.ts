@@ -0,0 +1,292 @@
+import type {
+    ApiErrorResponse,
+    AuthorizationErrorResponse,
+    DiscordLoginParams,
+    ErrorResponse,
+    ErrorSource,
+    NetworkErrorResponse,
+    RateLimitInfo,
+    StateErrorResponse,
+} from './DiscordLoginTypes.js';
+
+/**
+ * Base class of the errors thrown by this library.
+ *
+ * @example
+ * ```ts
+ * if (error instanceof DiscordError) {
+ *   console.error(`${error.name}: ${error.message}`);
+ * }
+ * ```
+ *
+ * @public
+ */
+export class DiscordError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'DiscordError';
+        // Restore the prototype chain when compiled to ES5
+        Object.setPrototypeOf(this, new.target.prototype);
+    }
+}
+
+/**
+ * Error thrown when the Discord login configuration is invalid.
+ *
+ * Thrown by `normalizeDiscordConfig` (and therefore by `useDiscordLogin` during render) so that
+ * misconfiguration surfaces immediately instead of as a Discord error page after the redirect.
+ *
+ * @example
+ * ```ts
+ * try {
+ *   normalizeDiscordConfig({ clientId: 'my-app' });
+ * } catch (error) {
+ *   if (error instanceof DiscordConfigError) {
+ *     console.error(`${error.field}: ${error.message}`); // "clientId: clientId must be a Discord snowflake ..."
+ *   }
+ * }
+ * ```
+ *
+ * @public
+ */
+export class DiscordConfigError extends DiscordError {
+    /** Name of the configuration field that failed validation */
+    readonly field: keyof DiscordLoginParams;
+
+    constructor(field: keyof DiscordLoginParams, message: string) {
+        super(message);
+        this.name = 'DiscordConfigError';
+        this.field = field;
+    }
+}
+
+/**
+ * Error thrown by the server-side token functions when Discord rejects a token request.
+ *
+ * Carries the `error`, `description` and `source` fields of `ErrorResponse`, so Discord's
+ * `{ error, error_description }` body can be handled the same way as errors passed to `onFailure`.
+ *
+ * @example
+ * ```ts
+ * try {
+ *   await exchangeCode({ clientId, clientSecret, redirectUri, code });
+ * } catch (error) {
+ *   if (error instanceof DiscordTokenError && error.error === 'invalid_grant') {
+ *     // Code expired or already used
+ *   }
+ * }
+ * ```
+ *
+ * @public
+ */
+export class DiscordTokenError extends DiscordError {
+    /** OAuth2 error code (e.g., 'invalid_grant', 'invalid_client') */
+    readonly error: ErrorResponse['error'];
+    /** Human-readable error description */
+    readonly description: string;
+    /** 'network' when the request failed, 'api' when Discord rejected it */
+    readonly source: Extract<ErrorSource, 'network' | 'api'>;
+    /** HTTP status of the token endpoint response, or 0 when the request failed */
+    readonly status: number;
+
+    constructor({ error, description }: Pick<ErrorResponse, 'error' | 'description'>, status: number) {
+        super(description ? `${error}: ${description}` : error);
+        this.name = 'DiscordTokenError';
+        this.error = error;
+        this.description = description;
+        this.source = status === 0 ? 'network' : 'api';
+        this.status = status;
+    }
+}
+
+/**
+ * Error thrown by the Discord API helpers (`fetchUser`, `fetchGuilds`, ...) when a request fails.
+ *
+ * Carries the HTTP status, Discord's JSON error code and message, and the rate-limit details so
+ * callers can tell a revoked token (401, code 50025) from an outage (5xx or status 0).
+ *
+ * @example
+ * ```ts
+ * try {
+ *   await fetchUser(token);
+ * } catch (error) {
+ *   if (error instanceof DiscordApiError && error.status === 401) {
+ *     // Token expired or revoked: log in again
+ *   }
+ * }
+ * ```
+ *
+ * @public
+ */
+export class DiscordApiError extends DiscordError {
+    /** HTTP status of the response, or 0 when the request failed before a response was received */
+    readonly status: number;
+    /** Discord JSON error code, when the response body contained one */
+    readonly code?: number;
+    /** Discord's error message, or the network error message */
+    readonly description: string;
+    /** Seconds to wait before retrying (429 responses) */
+    readonly retryAfter?: number;
+    /** Rate-limit headers of the response */
+    readonly rateLimit: RateLimitInfo;
+
+    constructor(
+        message: string,
+        {
+            status,
+            code,
+            description,
+            retryAfter,
+            rateLimit = {},
+        }: { status: number; code?: number; description: string; retryAfter?: number; rateLimit?: RateLimitInfo }
+    ) {
+        super(message);
+        this.name = 'DiscordApiError';
+        this.status = status;
+        this.code = code;
+        this.description = description;
+        this.retryAfter = retryAfter;
+        this.rateLimit = rateLimit;
+    }
+}
+
+/**
+ * Determines if an error is the rejection of an aborted request or operation.
+ *
+ * @internal
+ */
+export const isAbortError = (error: unknown): boolean =>
+    typeof error === 'object' && error !== null && (error as { name?: unknown }).name === 'AbortError';
+
+/**
+ * Converts an error thrown while processing a callback into an `ErrorResponse`.
+ *
+ * `DiscordApiError`s become `network_error` (status 0) or `api_error` and keep their status,
+ * Discord error code and retry delay. Anything else becomes a `callback_error`. The original
+ * error is kept as `cause`.
+ *
+ * @internal
+ */
+export const toErrorResponse = (error: unknown): ErrorResponse => {
+    if (error instanceof DiscordApiError) {
+        if (error.status === 0) {
+            return { error: 'network_error', description: error.message, source: 'network', cause: error, status: 0 };
+        }
+
+        return {
+            error: 'api_error',
+            description: error.message,
+            source: 'api',
+            cause: error,
+            status: error.status,
+            discordCode: error.code,
+            retryAfter: error.retryAfter,
+        };
+    }
+
+    if (error instanceof DiscordTokenError) {
+        if (error.source === 'network') {
+            return {
+                error: 'network_error',
+                description: error.description,
+                source: 'network',
+                cause: error,
+                status: 0,
+            };
+        }
+
+        return {
+            error: error.error,
+            description: error.description,
+            source: 'api',
+            cause: error,
+            status: error.status,
+        };
+    }
+
+    return {
+        error: 'callback_error',
+        description: error instanceof Error ? error.message : 'Unknown callback error',
+        source: 'callback',
+        cause: error,
+    };
+};
+
+/**
+ * Determines if the user cancelled the login, either by denying access on Discord's
+ * authorization screen or by closing the login popup.
+ *
+ * Cancellations usually need no error message.
+ *
+ * @param error - Error passed to `onFailure` or returned by `loginWithPopup`
+ *
+ * @returns True for `access_denied` and `popup_closed` errors
+ *
+ * @example
+ * ```ts
+ * onFailure: (error) => {
+ *   if (isUserCancelled(error)) return;
+ *   toast.error(error.description);
+ * }
+ * ```
+ *
+ * @public
+ */
+export const isUserCancelled = (
+    error: ErrorResponse
+): error is AuthorizationErrorResponse & { error: 'access_denied' | 'popup_closed' } =>
+    error.source === 'authorization' && (error.error === 'access_denied' || error.error === 'popup_closed');
+
+/**
+ * Determines if the OAuth2 state check failed (possible CSRF attempt or expired login attempt).
+ *
+ * @param error - Error passed to `onFailure`
+ *
+ * @returns True for `invalid_state` errors
+ *
+ * @public
+ */
+export const isStateError = (error: ErrorResponse): error is StateErrorResponse => error.source === 'state';
+
+/**
+ * Determines if a request could not reach Discord. Network errors are usually worth retrying.
+ *
+ * @param error - Error passed to `onFailure`
+ *
+ * @returns True for `network_error` errors
+ *
+ * @public
+ */
+export const isNetworkError = (error: ErrorResponse): error is NetworkErrorResponse => error.source === 'network';
+
+/**
+ * Determines if a Discord API request was rejected. Inspect `status` and `discordCode` for details.
+ *
+ * @param error - Error passed to `onFailure`
+ *
+ * @returns True for rejected API and token requests
+ *
+ * @example
+ * ```ts
+ * if (isApiError(error) && error.status === 401) {
+ *   // Token expired or revoked: log in again
+ * }
+ * ```
+ *
+ * @public
+ */
+export const isApiError = (error: ErrorResponse): error is ApiErrorResponse => error.source === 'api';
+
+/**
+ * Determines if the browser blocked the login popup. Fall back to a full-page redirect in that case.
+ *
+ * @param error - Error returned by `loginWithPopup`
+ *
+ * @returns True for `popup_blocked` errors
+ *
+ * @public
+ */
+export const isPopupBlocked = (
+    error: ErrorResponse
+): error is AuthorizationErrorResponse & { error: 'popup_blocked' } =>
+    error.source === 'authorization' && error.error === 'popup_blocked';
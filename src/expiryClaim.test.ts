@@ -0,0 +1,50 @@
+import { afterEach, describe, expect, it } from 'bun:test';
+import { claimExpiryAction, EXPIRY_CLAIM_STORAGE_KEY } from './expiryClaim.js';
+
+describe('claimExpiryAction', () => {
+    const sessionKey = 'expiry_claim_test';
+    const expiresAt = Date.now() + 60_000;
+
+    afterEach(() => {
+        window.localStorage.removeItem(`${EXPIRY_CLAIM_STORAGE_KEY}:refresh:${sessionKey}`);
+        window.localStorage.removeItem(`${EXPIRY_CLAIM_STORAGE_KEY}:relogin:${sessionKey}`);
+    });
+
+    it('should elect the first instance to claim an expiry', async () => {
+        const claims = await Promise.all([
+            claimExpiryAction('refresh', sessionKey, expiresAt, 'instance-a'),
+            claimExpiryAction('refresh', sessionKey, expiresAt, 'instance-b'),
+        ]);
+
+        expect(claims).toEqual([true, false]);
+        // The elected instance keeps its claim
+        expect(await claimExpiryAction('refresh', sessionKey, expiresAt, 'instance-a')).toBe(true);
+    });
+
+    it('should elect again for another session or action', async () => {
+        expect(await claimExpiryAction('refresh', sessionKey, expiresAt, 'instance-a')).toBe(true);
+
+        expect(await claimExpiryAction('refresh', sessionKey, expiresAt + 1000, 'instance-b')).toBe(true);
+        expect(await claimExpiryAction('relogin', sessionKey, expiresAt, 'instance-a')).toBe(true);
+    });
+
+    it('should let the last tab to write a simultaneous claim win', async () => {
+        const claim = claimExpiryAction('refresh', sessionKey, expiresAt, 'instance-a');
+        // Another tab writing its claim before this one re-reads it
+        window.localStorage.setItem(
+            `${EXPIRY_CLAIM_STORAGE_KEY}:refresh:${sessionKey}`,
+            JSON.stringify({ source: 'other-tab', expiresAt, until: Date.now() + 30_000 })
+        );
+
+        expect(await claim).toBe(false);
+    });
+
+    it('should ignore lapsed claims', async () => {
+        window.localStorage.setItem(
+            `${EXPIRY_CLAIM_STORAGE_KEY}:refresh:${sessionKey}`,
+            JSON.stringify({ source: 'closed-tab', expiresAt, until: Date.now() - 1 })
+        );
+
+        expect(await claimExpiryAction('refresh', sessionKey, expiresAt, 'instance-a')).toBe(true);
+    });
+});
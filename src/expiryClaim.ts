@@ -0,0 +1,84 @@
+import { createWebStorage } from './storage.js';
+
+/**
+ * Prefix of the localStorage keys electing the hook instance that handles the expiry of a session.
+ *
+ * @internal
+ */
+export const EXPIRY_CLAIM_STORAGE_KEY = 'react-discord-login:expiry_claim';
+
+/**
+ * Expiry actions that must run in a single hook instance.
+ *
+ * @internal
+ */
+export type ExpiryAction = 'refresh' | 'relogin';
+
+type ExpiryClaim = {
+    /** ID of the hook instance holding the claim */
+    source: string;
+    /** Expiry of the claimed session */
+    expiresAt: number;
+    /** Time at which the claim lapses, in milliseconds since the epoch */
+    until: number;
+};
+
+// How long a claim holds, long enough for a refresh request to finish
+const CLAIM_TTL = 30_000;
+
+// Delay before re-reading the claim, so tabs claiming at the same moment agree on the last one written
+const CLAIM_SETTLE_DELAY = 50;
+
+// localStorage is shared by all tabs of the origin; its in-memory fallback by the hook instances of this page
+const claimStorage = createWebStorage('localStorage');
+
+const readClaim = (key: string): ExpiryClaim | null => {
+    try {
+        const claim = JSON.parse(claimStorage.getItem(key) ?? 'null') as ExpiryClaim | null;
+        return claim && typeof claim.source === 'string' ? claim : null;
+    } catch {
+        // noop: not a claim
+        return null;
+    }
+};
+
+/**
+ * Elects the one hook instance, among those of this page and of the other tabs, that runs an expiry action.
+ *
+ * Discord refresh tokens are single-use, so only the elected instance may refresh a session; the others
+ * apply the refreshed session it broadcasts. The claim is written to localStorage: instances of the same
+ * page see it right away, while tabs claiming at the same moment re-read it after a short delay and the
+ * last one written wins. The session is identified by its expiry, so no token is written to localStorage.
+ *
+ * @param action - Expiry action to run
+ * @param sessionKey - Storage key of the session
+ * @param expiresAt - Expiry of the session, in milliseconds since the epoch
+ * @param source - ID of the claiming hook instance, see `createAuthSyncSource`
+ *
+ * @returns True when this instance was elected
+ *
+ * @example
+ * ```ts
+ * if (await claimExpiryAction('refresh', sessionKey, session.expiresAt, syncSource)) {
+ *   const token = await refresh(session);
+ * }
+ * ```
+ *
+ * @internal
+ */
+export const claimExpiryAction = async (
+    action: ExpiryAction,
+    sessionKey: string,
+    expiresAt: number,
+    source: string
+): Promise<boolean> => {
+    const key = `${EXPIRY_CLAIM_STORAGE_KEY}:${action}:${sessionKey}`;
+    const claim = readClaim(key);
+    if (claim && claim.source !== source && claim.expiresAt === expiresAt && claim.until > Date.now()) {
+        return false;
+    }
+
+    claimStorage.setItem(key, JSON.stringify({ source, expiresAt, until: Date.now() + CLAIM_TTL }));
+    await new Promise((resolve) => setTimeout(resolve, CLAIM_SETTLE_DELAY));
+    return readClaim(key)?.source === source;
+};
@@ -32,23 +32,98 @@
  * @packageDocumentation
  */
 
-import useDiscordLogin from './useDiscordLogin';
+import useDiscordLogin from './useDiscordLogin.js';
 
 // Export the hook as both default and named export
 export default useDiscordLogin;
 export { useDiscordLogin };
 
+// Export callback URL helpers
+export { parseCallbackUrl, stripOAuthParams } from './callbackUrl.js';
+// Export CDN and display helpers
+export { getAvatarUrl, getBannerUrl, getDefaultAvatarUrl, getDisplayName } from './cdn.js';
+// Export the auth context provider and its consumer hook
+export type { DiscordAuthContextValue, DiscordAuthProviderProps, DiscordAuthStatus } from './DiscordAuthProvider.js';
+export { DiscordAuthProvider, useDiscordAuth } from './DiscordAuthProvider.js';
+// Export the callback page component
+export type { DiscordCallbackProps, DiscordCallbackResult } from './DiscordCallback.js';
+export { DiscordCallback } from './DiscordCallback.js';
+// Export the ready-made login button
+export type { DiscordLoginButtonProps, DiscordLoginButtonRenderProps } from './DiscordLoginButton.js';
+export { DiscordLoginButton } from './DiscordLoginButton.js';
 // Export types
 export type {
+    ApiErrorResponse,
+    ApiRequestOptions,
+    AuthorizationErrorResponse,
+    CallbackErrorResponse,
     CallbackResponse,
     CodeResponse,
+    Connection,
+    CustomDiscordScopes,
+    DiscordEndpoints,
+    DiscordIntegrationType,
     DiscordLoginConfig,
     DiscordLoginParams,
+    DiscordLoginState,
+    DiscordLoginStatus,
+    DiscordOAuthErrorCode,
+    DiscordScope,
+    DiscordSession,
+    ErrorCode,
     ErrorResponse,
+    ErrorResponseBase,
+    ErrorSource,
+    FetchGuildsOptions,
+    GuildMember,
+    ImageFormat,
+    ImageOptions,
+    LibraryErrorCode,
+    LocationAdapter,
+    LoginOptions,
+    MemoryLocationAdapter,
+    NetworkErrorResponse,
     OnFailureFunc,
     OnSuccessFunc,
+    OnTokenExpiryFunc,
+    PartialGuild,
+    PopupOptions,
+    RateLimitInfo,
+    RefreshableTokenResponse,
+    RetryOptions,
+    SessionOptions,
+    StateErrorResponse,
+    StorageLike,
+    StorageOption,
+    TokenExpiryOptions,
     TokenResponse,
     UseDiscordLogin,
     UseDiscordLoginParams,
     User,
-} from './DiscordLoginTypes';
+} from './DiscordLoginTypes.js';
+// Export error classes and guards
+export {
+    DiscordApiError,
+    DiscordConfigError,
+    DiscordError,
+    DiscordTokenError,
+    isApiError,
+    isNetworkError,
+    isPopupBlocked,
+    isStateError,
+    isUserCancelled,
+} from './errors.js';
+
+// Export location adapters
+export {
+    createBrowserLocation,
+    createMemoryLocation,
+    createNextRouterLocation,
+    createReactRouterLocation,
+    createTanStackRouterLocation,
+} from './location.js';
+// Export storage adapters and session helpers
+export { isSessionExpired } from './session.js';
+export { createMemoryStorage, createWebStorage } from './storage.js';
+// Export Discord REST helpers
+export { fetchConnections, fetchGuildMember, fetchGuilds, fetchUser } from './utils.js';
@@ -0,0 +1,117 @@
+import { afterEach, beforeEach, describe, expect, it, mock, spyOn } from 'bun:test';
+import {
+    createBrowserLocation,
+    createMemoryLocation,
+    createNextRouterLocation,
+    createReactRouterLocation,
+    createTanStackRouterLocation,
+} from './location.js';
+
+describe('createMemoryLocation', () => {
+    it('should resolve navigations against the current URL and notify subscribers', () => {
+        const location = createMemoryLocation('http://localhost:3000/callback?code=abc');
+        const listener = mock();
+        const unsubscribe = location.subscribe(listener);
+
+        location.replace('/callback');
+        expect(location.getUrl()).toBe('http://localhost:3000/callback');
+
+        location.navigate('settings#profile');
+        expect(location.getUrl()).toBe('http://localhost:3000/settings#profile');
+        expect(listener).toHaveBeenCalledTimes(2);
+
+        unsubscribe();
+        location.navigate('/');
+        expect(listener).toHaveBeenCalledTimes(2);
+    });
+
+    it('should navigate to the assigned URL', () => {
+        const location = createMemoryLocation('http://localhost:3000/guilds');
+
+        location.assign('https://discord.com/oauth2/authorize?client_id=123');
+
+        expect(location.getUrl()).toBe('https://discord.com/oauth2/authorize?client_id=123');
+    });
+
+    it('should default to localhost', () => {
+        expect(createMemoryLocation().getUrl()).toBe('http://localhost/');
+    });
+});
+
+describe('createBrowserLocation', () => {
+    const domWindow = document.defaultView as unknown as Window &
+        typeof globalThis & { happyDOM: { setURL: (url: string) => void } };
+    let previousWindow: typeof globalThis.window;
+    let previousHistory: History;
+
+    beforeEach(() => {
+        previousWindow = globalThis.window;
+        previousHistory = globalThis.history;
+        globalThis.window = domWindow;
+        globalThis.history = domWindow.history;
+        domWindow.happyDOM.setURL('http://localhost:3000/callback?code=abc');
+    });
+
+    afterEach(() => {
+        domWindow.happyDOM.setURL('about:blank');
+        globalThis.window = previousWindow;
+        globalThis.history = previousHistory;
+    });
+
+    it('should read window.location and replace the history entry', () => {
+        const location = createBrowserLocation();
+        const listener = mock();
+        const unsubscribe = location.subscribe(listener);
+
+        expect(location.getUrl()).toBe('http://localhost:3000/callback?code=abc');
+
+        location.replace('/callback');
+
+        expect(window.location.href).toBe('http://localhost:3000/callback');
+        expect(listener).toHaveBeenCalledTimes(1);
+        unsubscribe();
+    });
+
+    it('should leave for other origins through window.location in every adapter', () => {
+        const assign = spyOn(window.location, 'assign').mockImplementation(() => {});
+        const url = 'https://discord.com/oauth2/authorize?client_id=123';
+
+        createBrowserLocation().assign(url);
+        createReactRouterLocation(mock()).assign(url);
+        createNextRouterLocation({ replace: mock() }).assign(url);
+        createTanStackRouterLocation({ navigate: mock(), history: { subscribe: mock() } }).assign(url);
+
+        expect(assign.mock.calls).toEqual([[url], [url], [url], [url]]);
+        assign.mockRestore();
+    });
+});
+
+describe('router location adapters', () => {
+    it('should replace the URL through React Router', () => {
+        const navigate = mock();
+        createReactRouterLocation(navigate).replace('/settings');
+
+        expect(navigate).toHaveBeenCalledWith('/settings', { replace: true });
+    });
+
+    it('should replace the URL through the Next.js App Router without scrolling', () => {
+        const router = { replace: mock() };
+        createNextRouterLocation(router).replace('/settings');
+
+        expect(router.replace).toHaveBeenCalledWith('/settings', { scroll: false });
+    });
+
+    it('should replace the URL and follow the history of TanStack Router', () => {
+        const unsubscribe = mock();
+        const router = { navigate: mock(), history: { subscribe: mock(() => unsubscribe) } };
+        const location = createTanStackRouterLocation(router);
+        const listener = mock();
+
+        location.replace('/settings');
+        const stop = location.subscribe(listener);
+
+        expect(router.navigate).toHaveBeenCalledWith({ href: '/settings', replace: true });
+        expect(router.history.subscribe).toHaveBeenCalledWith(listener);
+        expect(stop).toBe(unsubscribe);
+    });
+});
@@ -0,0 +1,172 @@
+import type { LocationAdapter, MemoryLocationAdapter } from './DiscordLoginTypes.js';
+
+const getWindowUrl = (): string => (typeof window === 'undefined' ? '' : window.location.href);
+
+// Routers only navigate within the app, so leaving for Discord always goes through `window.location`
+const assignWindowUrl = (url: string) => {
+    if (typeof window !== 'undefined') {
+        window.location.assign(url);
+    }
+};
+
+/**
+ * Subscribes to the browser events fired when the URL changes outside of the router
+ * (back/forward navigation and fragment changes).
+ *
+ * @internal
+ */
+const subscribeToWindow = (listener: () => void): (() => void) => {
+    if (typeof window === 'undefined') {
+        return () => {};
+    }
+
+    window.addEventListener('popstate', listener);
+    window.addEventListener('hashchange', listener);
+    return () => {
+        window.removeEventListener('popstate', listener);
+        window.removeEventListener('hashchange', listener);
+    };
+};
+
+/**
+ * Creates the default `LocationAdapter`, backed by `window.location` and `history.replaceState`.
+ *
+ * `replace` keeps the current `history.state` (routers store their own data there) and dispatches a
+ * `popstate` event so routers listening to it render the new URL. Safe to create during SSR.
+ *
+ * @returns Browser location adapter
+ *
+ * @example
+ * ```ts
+ * useDiscordLogin({ clientId, location: createBrowserLocation() });
+ * ```
+ */
+export const createBrowserLocation = (): LocationAdapter => ({
+    getUrl: getWindowUrl,
+    replace: (path) => {
+        if (typeof window === 'undefined' || typeof history === 'undefined') {
+            return;
+        }
+        history.replaceState(history.state, '', path);
+        window.dispatchEvent(new Event('popstate'));
+    },
+    assign: assignWindowUrl,
+    subscribe: subscribeToWindow,
+});
+
+/**
+ * Default location adapter of `useDiscordLogin`.
+ *
+ * @internal
+ */
+export const browserLocation = createBrowserLocation();
+
+/**
+ * Creates a `LocationAdapter` that navigates with React Router.
+ *
+ * @param navigate - Function returned by React Router's `useNavigate()`
+ *
+ * @returns React Router location adapter
+ *
+ * @example
+ * ```tsx
+ * const navigate = useNavigate();
+ * const location = useMemo(() => createReactRouterLocation(navigate), [navigate]);
+ * const { login } = useDiscordLogin({ clientId, location });
+ * ```
+ */
+export const createReactRouterLocation = (
+    navigate: (to: string, options: { replace: boolean }) => void
+): LocationAdapter => ({
+    getUrl: getWindowUrl,
+    replace: (path) => navigate(path, { replace: true }),
+    assign: assignWindowUrl,
+    subscribe: subscribeToWindow,
+});
+
+/**
+ * Creates a `LocationAdapter` that navigates with the Next.js App Router.
+ *
+ * @param router - Router returned by `useRouter()` from `next/navigation`
+ *
+ * @returns Next.js location adapter
+ *
+ * @example
+ * ```tsx
+ * 'use client';
+ * const router = useRouter();
+ * const location = useMemo(() => createNextRouterLocation(router), [router]);
+ * ```
+ */
+export const createNextRouterLocation = (router: {
+    replace: (href: string, options: { scroll: boolean }) => void;
+}): LocationAdapter => ({
+    getUrl: getWindowUrl,
+    replace: (path) => router.replace(path, { scroll: false }),
+    assign: assignWindowUrl,
+    subscribe: subscribeToWindow,
+});
+
+/**
+ * Creates a `LocationAdapter` that navigates with TanStack Router and follows its history.
+ *
+ * @param router - Router returned by `useRouter()` from `@tanstack/react-router`
+ *
+ * @returns TanStack Router location adapter
+ *
+ * @example
+ * ```tsx
+ * const router = useRouter();
+ * const location = useMemo(() => createTanStackRouterLocation(router), [router]);
+ * ```
+ */
+export const createTanStackRouterLocation = (router: {
+    navigate: (options: { href: string; replace: boolean }) => unknown;
+    history: { subscribe: (listener: () => void) => () => void };
+}): LocationAdapter => ({
+    getUrl: getWindowUrl,
+    replace: (path) => {
+        router.navigate({ href: path, replace: true });
+    },
+    assign: assignWindowUrl,
+    subscribe: (listener) => router.history.subscribe(listener),
+});
+
+/**
+ * Creates a `LocationAdapter` that keeps the URL in memory, for tests and non-browser environments.
+ *
+ * @param initialUrl - Absolute URL to start at. Defaults to 'http://localhost/'
+ *
+ * @returns Memory location adapter with a `navigate` function to simulate navigations
+ *
+ * @example
+ * ```ts
+ * const location = createMemoryLocation('http://localhost:3000/callback?code=abc&state=xyz');
+ * renderHook(() => useDiscordLogin({ clientId, location }));
+ * location.getUrl(); // 'http://localhost:3000/callback' once the callback was handled
+ * ```
+ */
+export const createMemoryLocation = (initialUrl = 'http://localhost/'): MemoryLocationAdapter => {
+    let url = new URL(initialUrl).href;
+    const listeners = new Set<() => void>();
+
+    const setUrl = (next: string) => {
+        url = new URL(next, url).href;
+        listeners.forEach((listener) => {
+            listener();
+        });
+    };
+
+    return {
+        getUrl: () => url,
+        replace: setUrl,
+        assign: setUrl,
+        navigate: setUrl,
+        subscribe: (listener) => {
+            listeners.add(listener);
+            return () => {
+                listeners.delete(listener);
+            };
+        },
+    };
+};
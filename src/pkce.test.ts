@@ -0,0 +1,68 @@
+import { beforeEach, describe, expect, it } from 'bun:test';
+import { createHash } from 'node:crypto';
+import type { StorageLike } from './DiscordLoginTypes.js';
+import { attachCodeVerifier, createCodeChallenge, createPkceChallenge, PKCE_STORAGE_KEY, sha256 } from './pkce.js';
+import { createMemoryStorage } from './storage.js';
+
+describe('PKCE', () => {
+    let storage: StorageLike;
+
+    beforeEach(() => {
+        storage = createMemoryStorage();
+    });
+
+    it('should compute SHA-256 digests across block boundaries', () => {
+        for (const length of [0, 1, 55, 56, 63, 64, 65, 200]) {
+            const message = new Uint8Array(length).map((_, index) => (index * 31) % 256);
+            const expected = createHash('sha256').update(message).digest('hex');
+
+            expect(Buffer.from(sha256(message)).toString('hex')).toBe(expected);
+        }
+    });
+
+    it('should derive the S256 challenge from the RFC 7636 example verifier', () => {
+        expect(createCodeChallenge('dBjftJeZ4CVP-mB92K27uhbUJU1p1r_wW1gFWFOEjXk')).toBe(
+            'E9Melhoa2OwvFrEMTJguCHaoeK1t8URWbuGJSstw-cM'
+        );
+    });
+
+    it('should store a verifier matching the returned challenge', () => {
+        const challenge = createPkceChallenge(storage);
+        const verifier = attachCodeVerifier({ type: 'code', code: { code: 'abc' } }, storage).code?.code_verifier;
+
+        expect(verifier).toMatch(/^[A-Za-z0-9_-]{43}$/);
+        expect(createCodeChallenge(verifier as string)).toBe(challenge);
+    });
+
+    it('should attach the verifier to a code response only once', () => {
+        createPkceChallenge(storage);
+
+        const first = attachCodeVerifier({ type: 'code', code: { code: 'abc' } }, storage);
+        const second = attachCodeVerifier({ type: 'code', code: { code: 'abc' } }, storage);
+
+        expect(first.code?.code_verifier).toMatch(/^[A-Za-z0-9_-]{43}$/);
+        expect(second.code).toEqual({ code: 'abc' });
+    });
+
+    it('should attach the verifier of the login attempt matching the returned state', () => {
+        const firstChallenge = createPkceChallenge(storage, 'first-state');
+        const secondChallenge = createPkceChallenge(storage, 'second-state');
+
+        const second = attachCodeVerifier({ type: 'code', state: 'second-state', code: { code: 'abc' } }, storage);
+        const first = attachCodeVerifier({ type: 'code', state: 'first-state', code: { code: 'def' } }, storage);
+
+        expect(createCodeChallenge(second.code?.code_verifier as string)).toBe(secondChallenge);
+        expect(createCodeChallenge(first.code?.code_verifier as string)).toBe(firstChallenge);
+    });
+
+    it('should clear the verifier when the callback is an error', () => {
+        createPkceChallenge(storage);
+
+        attachCodeVerifier(
+            { type: 'error', error: { error: 'access_denied', description: '', source: 'authorization' } },
+            storage
+        );
+
+        expect(storage.getItem(PKCE_STORAGE_KEY)).toBeNull();
+    });
+});
@@ -0,0 +1,174 @@
+import type { CallbackResponse, StorageLike } from './DiscordLoginTypes.js';
+import { base64UrlEncode, randomString } from './encoding.js';
+import { addPendingEntry, takePendingEntry } from './storage.js';
+
+/**
+ * Storage key holding the PKCE code verifiers of the pending login attempts, keyed by their `state`.
+ *
+ * @internal
+ */
+export const PKCE_STORAGE_KEY = 'react-discord-login:code_verifier';
+
+// SHA-256 round constants (first 32 bits of the fractional parts of the cube roots of the first 64 primes)
+const K = new Uint32Array([
+    0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5, 0xd807aa98,
+    0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174, 0xe49b69c1, 0xefbe4786,
+    0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da, 0x983e5152, 0xa831c66d, 0xb00327c8,
+    0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967, 0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13,
+    0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85, 0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819,
+    0xd6990624, 0xf40e3585, 0x106aa070, 0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a,
+    0x5b9cca4f, 0x682e6ff3, 0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7,
+    0xc67178f2,
+]);
+
+const rotr = (value: number, bits: number) => (value >>> bits) | (value << (32 - bits));
+
+/**
+ * Computes the SHA-256 digest of a byte array.
+ *
+ * Implemented synchronously so that `buildUrl()` can stay synchronous; `crypto.subtle.digest`
+ * is promise based.
+ *
+ * @internal
+ */
+export const sha256 = (message: Uint8Array): Uint8Array => {
+    const hash = new Uint32Array([
+        0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19,
+    ]);
+
+    // Pad: 0x80, zeros, then the 64-bit big-endian message length in bits
+    const paddedLength = Math.ceil((message.length + 9) / 64) * 64;
+    const padded = new Uint8Array(paddedLength);
+    padded.set(message);
+    padded[message.length] = 0x80;
+    const view = new DataView(padded.buffer);
+    view.setUint32(paddedLength - 8, Math.floor(message.length / 0x20000000));
+    view.setUint32(paddedLength - 4, (message.length << 3) >>> 0);
+
+    const w = new Uint32Array(64);
+    for (let offset = 0; offset < paddedLength; offset += 64) {
+        for (let i = 0; i < 16; i++) {
+            w[i] = view.getUint32(offset + i * 4);
+        }
+        for (let i = 16; i < 64; i++) {
+            const s0 = rotr(w[i - 15], 7) ^ rotr(w[i - 15], 18) ^ (w[i - 15] >>> 3);
+            const s1 = rotr(w[i - 2], 17) ^ rotr(w[i - 2], 19) ^ (w[i - 2] >>> 10);
+            w[i] = (w[i - 16] + s0 + w[i - 7] + s1) >>> 0;
+        }
+
+        let a = hash[0];
+        let b = hash[1];
+        let c = hash[2];
+        let d = hash[3];
+        let e = hash[4];
+        let f = hash[5];
+        let g = hash[6];
+        let h = hash[7];
+        for (let i = 0; i < 64; i++) {
+            const s1 = rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25);
+            const ch = (e & f) ^ (~e & g);
+            const t1 = (h + s1 + ch + K[i] + w[i]) >>> 0;
+            const s0 = rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22);
+            const maj = (a & b) ^ (a & c) ^ (b & c);
+            const t2 = (s0 + maj) >>> 0;
+            h = g;
+            g = f;
+            f = e;
+            e = (d + t1) >>> 0;
+            d = c;
+            c = b;
+            b = a;
+            a = (t1 + t2) >>> 0;
+        }
+
+        hash[0] += a;
+        hash[1] += b;
+        hash[2] += c;
+        hash[3] += d;
+        hash[4] += e;
+        hash[5] += f;
+        hash[6] += g;
+        hash[7] += h;
+    }
+
+    const digest = new Uint8Array(32);
+    const digestView = new DataView(digest.buffer);
+    for (let i = 0; i < 8; i++) {
+        digestView.setUint32(i * 4, hash[i]);
+    }
+    return digest;
+};
+
+/**
+ * Derives the S256 code challenge for a PKCE code verifier (RFC 7636 §4.2).
+ *
+ * @param verifier - PKCE code verifier
+ *
+ * @returns base64url encoded SHA-256 digest of the verifier
+ *
+ * @example
+ * ```ts
+ * createCodeChallenge('dBjftJeZ4CVP-mB92K27uhbUJU1p1r_wW1gFWFOEjXk');
+ * // Returns: 'E9Melhoa2OwvFrEMTJguCHaoeK1t8URWbuGJSstw-cM'
+ * ```
+ */
+export const createCodeChallenge = (verifier: string): string =>
+    base64UrlEncode(sha256(new TextEncoder().encode(verifier)));
+
+/**
+ * Generates a PKCE code verifier for a login attempt and persists it until the callback.
+ *
+ * Verifiers are stored per `state`, so several login attempts can be pending at once. Without a
+ * state only the verifier of the latest login attempt is kept.
+ *
+ * @param storage - Storage used to persist the verifier across the redirect
+ * @param state - OAuth2 state sent with the same authorization request
+ *
+ * @returns S256 code challenge to send as the `code_challenge` authorize parameter
+ *
+ * @internal
+ */
+export const createPkceChallenge = (storage: StorageLike, state = ''): string => {
+    // 32 random bytes encode to a 43 character verifier, the minimum length allowed by RFC 7636
+    const verifier = randomString(32);
+    addPendingEntry(storage, PKCE_STORAGE_KEY, state, verifier);
+    return createCodeChallenge(verifier);
+};
+
+/**
+ * Reads and clears the PKCE code verifier of a pending login attempt.
+ *
+ * @param storage - Storage holding the verifier created by `createPkceChallenge`
+ * @param state - OAuth2 state returned with the callback
+ *
+ * @returns The stored verifier, or undefined when no login attempt is pending
+ *
+ * @internal
+ */
+export const consumeCodeVerifier = (storage: StorageLike, state = ''): string | undefined =>
+    takePendingEntry(storage, PKCE_STORAGE_KEY, state);
+
+/**
+ * Attaches the stored PKCE code verifier to a code callback response.
+ *
+ * The verifier stored for the returned `state` is cleared for every callback, so it can only be used once.
+ *
+ * @param response - Parsed callback response
+ * @param storage - Storage holding the verifier created by `createPkceChallenge`
+ *
+ * @returns The response with `code_verifier` set on its code, when a verifier was stored
+ *
+ * @internal
+ */
+export const attachCodeVerifier = (response: CallbackResponse, storage: StorageLike): CallbackResponse => {
+    if (response.type === null) {
+        return response;
+    }
+
+    const codeVerifier = consumeCodeVerifier(storage, response.state);
+    if (!response.code || !codeVerifier) {
+        return response;
+    }
+
+    return { ...response, code: { ...response.code, code_verifier: codeVerifier } };
+};
@@ -0,0 +1,141 @@
+import { afterEach, beforeEach, describe, expect, it, mock } from 'bun:test';
+import type { CallbackResponse } from './DiscordLoginTypes.js';
+import { isLoginPopup, openLoginPopup, POPUP_MESSAGE_TYPE, POPUP_WINDOW_NAME, postCallbackToOpener } from './popup.js';
+
+type FakeWindow = EventTarget & Record<string, unknown>;
+
+const createFakeWindow = (props: Record<string, unknown> = {}): FakeWindow =>
+    Object.assign(new EventTarget(), { location: { origin: 'http://localhost:3000' } }, props);
+
+describe('popup login flow', () => {
+    const originalWindow = globalThis.window;
+    let fakeWindow: FakeWindow;
+    let popup: { closed: boolean; close: ReturnType<typeof mock> };
+    let mockOpen: ReturnType<typeof mock>;
+
+    const postFromPopup = (data: unknown, origin = 'http://localhost:3000', source: unknown = popup) => {
+        const event = new Event('message') as Event & Record<string, unknown>;
+        Object.assign(event, { data, origin, source });
+        fakeWindow.dispatchEvent(event);
+    };
+
+    beforeEach(() => {
+        popup = {
+            closed: false,
+            close: mock(() => {
+                popup.closed = true;
+            }),
+        };
+        mockOpen = mock(() => popup);
+        fakeWindow = createFakeWindow({ open: mockOpen });
+        globalThis.window = fakeWindow as unknown as Window & typeof globalThis;
+    });
+
+    afterEach(() => {
+        globalThis.window = originalWindow;
+    });
+
+    it('should open the authorization url in a named popup', async () => {
+        const pending = openLoginPopup('https://discord.com/api/oauth2/authorize?client_id=1', 'http://localhost:3000');
+        postFromPopup({ type: POPUP_MESSAGE_TYPE, response: { type: null } });
+        await pending;
+
+        expect(mockOpen).toHaveBeenCalledTimes(1);
+        const [url, name] = mockOpen.mock.calls[0];
+        expect(url).toBe('https://discord.com/api/oauth2/authorize?client_id=1');
+        expect(name).toBe(POPUP_WINDOW_NAME);
+    });
+
+    it('should resolve with the response posted by the popup and close it', async () => {
+        const response: CallbackResponse = { type: 'code', code: { code: 'test-code' } };
+        const pending = openLoginPopup('https://discord.com', 'http://localhost:3000');
+
+        postFromPopup({ type: POPUP_MESSAGE_TYPE, response });
+
+        expect(await pending).toEqual(response);
+        expect(popup.close).toHaveBeenCalled();
+    });
+
+    it('should ignore messages from other origins, sources or of other types', async () => {
+        const response: CallbackResponse = { type: 'code', code: { code: 'trusted' } };
+        const pending = openLoginPopup('https://discord.com', 'http://localhost:3000');
+
+        postFromPopup(
+            { type: POPUP_MESSAGE_TYPE, response: { type: 'code', code: { code: 'evil' } } },
+            'https://evil.com'
+        );
+        postFromPopup({ type: POPUP_MESSAGE_TYPE, response: { type: 'code', code: { code: 'other' } } }, undefined, {});
+        postFromPopup({ type: 'something-else' });
+        postFromPopup({ type: POPUP_MESSAGE_TYPE, response });
+
+        expect(await pending).toEqual(response);
+    });
+
+    it('should resolve with popup_blocked when the popup cannot be opened', async () => {
+        mockOpen.mockReturnValue(null);
+
+        const response = await openLoginPopup('https://discord.com', 'http://localhost:3000');
+
+        expect(response.type).toBe('error');
+        expect(response.error?.error).toBe('popup_blocked');
+        expect(response.error?.source).toBe('authorization');
+    });
+
+    it('should resolve with popup_closed when the user closes the popup', async () => {
+        const pending = openLoginPopup('https://discord.com', 'http://localhost:3000', { pollInterval: 5 });
+        popup.closed = true;
+
+        const response = await pending;
+
+        expect(response.type).toBe('error');
+        expect(response.error?.error).toBe('popup_closed');
+    });
+
+    it('should close the popup and stop listening when aborted', async () => {
+        const controller = new AbortController();
+        const pending = openLoginPopup(
+            'https://discord.com',
+            'http://localhost:3000',
+            { pollInterval: 5 },
+            controller.signal
+        );
+
+        controller.abort();
+
+        expect(await pending).toEqual({ type: null });
+        expect(popup.close).toHaveBeenCalled();
+    });
+
+    it('should not open a popup for an already aborted signal', async () => {
+        const controller = new AbortController();
+        controller.abort();
+
+        expect(await openLoginPopup('https://discord.com', 'http://localhost:3000', {}, controller.signal)).toEqual({
+            type: null,
+        });
+        expect(mockOpen).not.toHaveBeenCalled();
+    });
+
+    it('should post the callback response to the opener from inside the popup', () => {
+        const opener = { postMessage: mock() };
+        globalThis.window = createFakeWindow({ name: POPUP_WINDOW_NAME, opener }) as unknown as Window &
+            typeof globalThis;
+        const response: CallbackResponse = { type: 'code', code: { code: 'test-code' } };
+
+        expect(isLoginPopup()).toBe(true);
+        expect(postCallbackToOpener(response)).toBe(true);
+        expect(opener.postMessage).toHaveBeenCalledWith(
+            { type: POPUP_MESSAGE_TYPE, response },
+            'http://localhost:3000'
+        );
+    });
+
+    it('should not post anything outside of a login popup', () => {
+        const opener = { postMessage: mock() };
+        globalThis.window = createFakeWindow({ name: 'main', opener }) as unknown as Window & typeof globalThis;
+
+        expect(isLoginPopup()).toBe(false);
+        expect(postCallbackToOpener({ type: 'code', code: { code: 'test-code' } })).toBe(false);
+        expect(opener.postMessage).not.toHaveBeenCalled();
+    });
+});
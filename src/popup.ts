@@ -0,0 +1,173 @@
+import type { CallbackResponse, PopupOptions } from './DiscordLoginTypes.js';
+
+/**
+ * Window name assigned to the login popup.
+ *
+ * Used by the callback page to recognise that it was opened by `loginWithPopup`
+ * and should hand its result back to the opener instead of processing it itself.
+ *
+ * @internal
+ */
+export const POPUP_WINDOW_NAME = 'react-discord-login-popup';
+
+/**
+ * Message type used when posting the callback result from the popup to its opener.
+ *
+ * @internal
+ */
+export const POPUP_MESSAGE_TYPE = 'react-discord-login:callback';
+
+/**
+ * Shape of the message posted from the popup callback page to the opener window.
+ *
+ * @internal
+ */
+type PopupMessage = {
+    type: typeof POPUP_MESSAGE_TYPE;
+    response: CallbackResponse;
+};
+
+const isPopupMessage = (data: unknown): data is PopupMessage =>
+    typeof data === 'object' && data !== null && (data as PopupMessage).type === POPUP_MESSAGE_TYPE;
+
+/**
+ * Builds the `window.open` feature string, centering the popup over the current window.
+ *
+ * @internal
+ */
+const getPopupFeatures = (width: number, height: number): string => {
+    const left = Math.max(0, Math.round((window.outerWidth ?? width) / 2 - width / 2 + (window.screenX ?? 0)));
+    const top = Math.max(0, Math.round((window.outerHeight ?? height) / 2 - height / 2 + (window.screenY ?? 0)));
+    return `width=${width},height=${height},left=${left},top=${top},popup=yes`;
+};
+
+/**
+ * Opens the Discord authorization URL in a popup window and waits for the callback result.
+ *
+ * The callback page (the page at `redirectUri`) must mount `useDiscordLogin`, which detects that it
+ * runs inside the login popup and posts its parsed callback response back via `postMessage`.
+ * Messages are only accepted from the popup window itself and from the expected origin.
+ *
+ * @param url - Discord authorization URL generated by `generateUrl`
+ * @param expectedOrigin - Origin the callback page is served from (the origin of `redirectUri`)
+ * @param options - Popup window dimensions and polling interval
+ * @param signal - Abandons the login: closes the popup, stops listening and resolves with `{ type: null }`
+ *
+ * @returns Promise resolving to the callback response posted by the popup, or an error response
+ * with `popup_blocked` / `popup_closed` when the popup could not be opened or was closed by the user
+ *
+ * @internal
+ */
+export const openLoginPopup = (
+    url: string,
+    expectedOrigin: string,
+    { width = 500, height = 750, pollInterval = 500 }: PopupOptions = {},
+    signal?: AbortSignal
+): Promise<CallbackResponse> =>
+    new Promise((resolve) => {
+        if (signal?.aborted) {
+            resolve({ type: null });
+            return;
+        }
+
+        const popup = window.open(url, POPUP_WINDOW_NAME, getPopupFeatures(width, height));
+
+        if (!popup) {
+            resolve({
+                type: 'error',
+                error: {
+                    error: 'popup_blocked',
+                    description: 'The login popup could not be opened. It may have been blocked by the browser.',
+                    source: 'authorization',
+                },
+            });
+            return;
+        }
+
+        let closedPoll: ReturnType<typeof setInterval> | undefined;
+
+        const closePopup = () => {
+            try {
+                popup.close();
+            } catch {
+                // noop: popup may already be closed
+            }
+        };
+
+        const finish = (response: CallbackResponse) => {
+            window.removeEventListener('message', handleMessage);
+            signal?.removeEventListener('abort', handleAbort);
+            if (closedPoll !== undefined) {
+                clearInterval(closedPoll);
+            }
+            resolve(response);
+        };
+
+        const handleMessage = (event: MessageEvent) => {
+            if (event.origin !== expectedOrigin || event.source !== popup || !isPopupMessage(event.data)) {
+                return;
+            }
+
+            closePopup();
+            finish(event.data.response);
+        };
+
+        // Unmounted or replaced by a newer login: nobody waits for this popup anymore
+        const handleAbort = () => {
+            closePopup();
+            finish({ type: null });
+        };
+
+        window.addEventListener('message', handleMessage);
+        signal?.addEventListener('abort', handleAbort, { once: true });
+
+        closedPoll = setInterval(() => {
+            if (popup.closed) {
+                finish({
+                    type: 'error',
+                    error: {
+                        error: 'popup_closed',
+                        description: 'The login popup was closed before the login completed.',
+                        source: 'authorization',
+                    },
+                });
+            }
+        }, pollInterval);
+    });
+
+/**
+ * Determines if the current window is a login popup opened by `openLoginPopup`.
+ *
+ * @returns True when running inside the login popup with a reachable opener
+ */
+export const isLoginPopup = (): boolean => {
+    if (typeof window === 'undefined') {
+        return false;
+    }
+
+    try {
+        return window.name === POPUP_WINDOW_NAME && !!window.opener && window.opener !== window;
+    } catch {
+        return false;
+    }
+};
+
+/**
+ * Posts a callback response from the login popup back to its opener window.
+ *
+ * The message is restricted to the popup's own origin, so the opener only receives it
+ * when both windows are served from the same origin.
+ *
+ * @param response - Parsed callback response from `getCallbackResponse`
+ *
+ * @returns True if the message was posted, false when there is no opener to receive it
+ */
+export const postCallbackToOpener = (response: CallbackResponse): boolean => {
+    if (!isLoginPopup()) {
+        return false;
+    }
+
+    const message: PopupMessage = { type: POPUP_MESSAGE_TYPE, response };
+    window.opener.postMessage(message, window.location.origin);
+    return true;
+};
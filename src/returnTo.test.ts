@@ -0,0 +1,43 @@
+import { beforeEach, describe, expect, it } from 'bun:test';
+import { consumeReturnTo, RETURN_TO_STORAGE_KEY, resolveReturnTo, saveReturnTo } from './returnTo.js';
+import { createMemoryStorage } from './storage.js';
+
+describe('resolveReturnTo', () => {
+    const origin = 'https://yourapp.com';
+
+    it('should keep same-origin paths with query and hash', () => {
+        expect(resolveReturnTo('/settings?tab=profile#avatar', origin)).toBe('/settings?tab=profile#avatar');
+        expect(resolveReturnTo('https://yourapp.com/guilds', origin)).toBe('/guilds');
+        expect(resolveReturnTo('dashboard', origin)).toBe('/dashboard');
+    });
+
+    it('should reject targets on other origins', () => {
+        expect(resolveReturnTo('https://evil.example/phish', origin)).toBeNull();
+        expect(resolveReturnTo('//evil.example/phish', origin)).toBeNull();
+        expect(resolveReturnTo('http://yourapp.com/settings', origin)).toBeNull();
+        expect(resolveReturnTo('javascript:alert(1)', origin)).toBeNull();
+    });
+});
+
+describe('consumeReturnTo', () => {
+    const origin = 'https://yourapp.com';
+    const storage = createMemoryStorage();
+
+    beforeEach(() => {
+        storage.removeItem(RETURN_TO_STORAGE_KEY);
+    });
+
+    it('should return the saved target once', () => {
+        saveReturnTo(storage, '/settings');
+
+        expect(consumeReturnTo(storage, origin)).toBe('/settings');
+        expect(consumeReturnTo(storage, origin)).toBeNull();
+    });
+
+    it('should drop tampered targets', () => {
+        storage.setItem(RETURN_TO_STORAGE_KEY, 'https://evil.example');
+
+        expect(consumeReturnTo(storage, origin)).toBeNull();
+        expect(storage.getItem(RETURN_TO_STORAGE_KEY)).toBeNull();
+    });
+});
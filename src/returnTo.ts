@@ -0,0 +1,71 @@
+import type { StorageLike } from './DiscordLoginTypes.js';
+
+/**
+ * Storage key holding the page to return to after the pending login attempt.
+ *
+ * @internal
+ */
+export const RETURN_TO_STORAGE_KEY = 'react-discord-login:return_to';
+
+/**
+ * Resolves a return target against an origin, rejecting targets on other origins.
+ *
+ * Relative paths are resolved against the origin. Absolute and protocol-relative URLs
+ * (`https://evil.example`, `//evil.example`) and non-http schemes are only accepted when
+ * they point to the same origin, so the target cannot be used as an open redirect.
+ *
+ * @param target - Path or URL to return to
+ * @param origin - Origin of the current page
+ *
+ * @returns The target as `pathname + search + hash`, or null when it is not same-origin
+ *
+ * @example
+ * ```ts
+ * resolveReturnTo('/settings?tab=profile', 'https://yourapp.com'); // '/settings?tab=profile'
+ * resolveReturnTo('https://evil.example/phish', 'https://yourapp.com'); // null
+ * ```
+ *
+ * @internal
+ */
+export const resolveReturnTo = (target: string, origin: string): string | null => {
+    let url: URL;
+    try {
+        url = new URL(target, origin);
+    } catch {
+        return null;
+    }
+
+    if (url.origin !== origin) {
+        return null;
+    }
+
+    return url.pathname + url.search + url.hash;
+};
+
+/**
+ * Persists the page to return to after the login attempt, replacing any previous one.
+ *
+ * @param storage - Storage used to persist the target across the redirect
+ * @param returnTo - Same-origin path, already validated with `resolveReturnTo`
+ *
+ * @internal
+ */
+export const saveReturnTo = (storage: StorageLike, returnTo: string): void => {
+    storage.setItem(RETURN_TO_STORAGE_KEY, returnTo);
+};
+
+/**
+ * Reads and clears the page to return to, validating it again since storage can be tampered with.
+ *
+ * @param storage - Storage holding the target saved by `saveReturnTo`
+ * @param origin - Origin of the current page
+ *
+ * @returns The same-origin path to return to, or null when none was saved or it is not same-origin
+ *
+ * @internal
+ */
+export const consumeReturnTo = (storage: StorageLike, origin: string): string | null => {
+    const returnTo = storage.getItem(RETURN_TO_STORAGE_KEY);
+    storage.removeItem(RETURN_TO_STORAGE_KEY);
+    return returnTo ? resolveReturnTo(returnTo, origin) : null;
+};
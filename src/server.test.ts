@@ -0,0 +1,143 @@
+import { afterEach, beforeEach, describe, expect, it, mock } from 'bun:test';
+import { DiscordTokenError, exchangeCode, refreshToken, revokeToken } from './server.js';
+
+describe('server token functions', () => {
+    const originalFetch = globalThis.fetch;
+    const mockFetch = mock();
+    const credentials = { clientId: '123456789012345678', clientSecret: 'secret' };
+
+    const jsonResponse = (status: number, body: unknown) =>
+        ({
+            ok: status >= 200 && status < 300,
+            status,
+            statusText: status === 200 ? 'OK' : 'Bad Request',
+            json: () => Promise.resolve(body),
+        }) as unknown as Response;
+
+    const getRequest = () => {
+        const [url, init] = mockFetch.mock.calls[0] as [string, RequestInit];
+        return { url, init, body: new URLSearchParams(init.body as string) };
+    };
+
+    beforeEach(() => {
+        mockFetch.mockReset();
+        globalThis.fetch = mockFetch as unknown as typeof fetch;
+    });
+
+    afterEach(() => {
+        globalThis.fetch = originalFetch;
+    });
+
+    it('should exchange a code with client authentication and PKCE verifier', async () => {
+        mockFetch.mockResolvedValue(
+            jsonResponse(200, {
+                token_type: 'Bearer',
+                access_token: 'access',
+                expires_in: 604800,
+                refresh_token: 'refresh',
+                scope: 'identify email',
+            })
+        );
+
+        const token = await exchangeCode({
+            ...credentials,
+            code: 'auth-code',
+            redirectUri: 'https://myapp.com/callback',
+            codeVerifier: 'verifier',
+        });
+
+        const { url, init, body } = getRequest();
+        expect(url).toBe('https://discord.com/api/oauth2/token');
+        expect(init.method).toBe('POST');
+        expect((init.headers as Record<string, string>).authorization).toBe(
+            `Basic ${btoa('123456789012345678:secret')}`
+        );
+        expect(body.get('grant_type')).toBe('authorization_code');
+        expect(body.get('code')).toBe('auth-code');
+        expect(body.get('redirect_uri')).toBe('https://myapp.com/callback');
+        expect(body.get('code_verifier')).toBe('verifier');
+        expect(token).toEqual({
+            token_type: 'Bearer',
+            access_token: 'access',
+            expires_in: 604800,
+            refresh_token: 'refresh',
+            scope: ['identify', 'email'],
+        });
+    });
+
+    it('should omit the code verifier when not using PKCE', async () => {
+        mockFetch.mockResolvedValue(jsonResponse(200, { token_type: 'Bearer', access_token: 'a', expires_in: 1 }));
+
+        await exchangeCode({ ...credentials, code: 'auth-code', redirectUri: 'https://myapp.com/callback' });
+
+        expect(getRequest().body.has('code_verifier')).toBe(false);
+    });
+
+    it('should refresh a token', async () => {
+        mockFetch.mockResolvedValue(
+            jsonResponse(200, { token_type: 'Bearer', access_token: 'new', expires_in: 10, refresh_token: 'next' })
+        );
+
+        const token = await refreshToken({ ...credentials, refreshToken: 'refresh' });
+
+        expect(getRequest().body.get('grant_type')).toBe('refresh_token');
+        expect(getRequest().body.get('refresh_token')).toBe('refresh');
+        expect(token.refresh_token).toBe('next');
+    });
+
+    it('should revoke a token', async () => {
+        mockFetch.mockResolvedValue(jsonResponse(200, {}));
+
+        await revokeToken({ ...credentials, token: 'access', tokenTypeHint: 'access_token' });
+
+        const { url, body } = getRequest();
+        expect(url).toBe('https://discord.com/api/oauth2/token/revoke');
+        expect(body.get('token')).toBe('access');
+        expect(body.get('token_type_hint')).toBe('access_token');
+    });
+
+    it('should post to the token endpoints of the configured API base URL and version', async () => {
+        mockFetch.mockResolvedValue(jsonResponse(200, {}));
+        const endpoints = { apiBaseUrl: 'https://proxy.example.com/discord', apiVersion: 10 };
+
+        await revokeToken({ ...credentials, token: 'access', endpoints });
+
+        expect(getRequest().url).toBe('https://proxy.example.com/discord/v10/oauth2/token/revoke');
+    });
+
+    it('should map Discord error bodies onto DiscordTokenError', async () => {
+        mockFetch.mockResolvedValue(
+            jsonResponse(400, { error: 'invalid_grant', error_description: 'Invalid "code" in request.' })
+        );
+
+        const error = await exchangeCode({
+            ...credentials,
+            code: 'used',
+            redirectUri: 'https://myapp.com/callback',
+        }).catch((reason: unknown) => reason);
+
+        expect(error).toBeInstanceOf(DiscordTokenError);
+        expect(error).toMatchObject({ error: 'invalid_grant', description: 'Invalid "code" in request.', status: 400 });
+    });
+
+    it('should report network failures as network_error', async () => {
+        mockFetch.mockRejectedValue(new Error('getaddrinfo ENOTFOUND discord.com'));
+
+        const error = await refreshToken({ ...credentials, refreshToken: 'refresh' }).catch(
+            (reason: unknown) => reason
+        );
+
+        expect(error).toMatchObject({ error: 'network_error', status: 0 });
+    });
+
+    it('should report token responses that are not JSON as invalid_token_response', async () => {
+        mockFetch.mockResolvedValue(new Response('<html>Bad gateway</html>', { status: 200 }));
+
+        const error = await refreshToken({ ...credentials, refreshToken: 'refresh' }).catch(
+            (reason: unknown) => reason
+        );
+
+        expect(error).toBeInstanceOf(DiscordTokenError);
+        expect(error).toMatchObject({ error: 'invalid_token_response', source: 'api', status: 200 });
+    });
+});
@@ -0,0 +1,263 @@
+/**
+ * @fileoverview React Discord Login - server-side companion for the authorization code flow
+ *
+ * Exchanges authorization codes for tokens, refreshes and revokes tokens against Discord's
+ * `/oauth2/token` endpoints, and parses callback URLs. Does not depend on React or `window`, so it
+ * runs in Node, Bun and edge runtimes that provide `fetch`.
+ *
+ * @example Exchanging the code received by `onSuccess`
+ * ```ts
+ * import { exchangeCode } from 'react-discord-login/server';
+ *
+ * const token = await exchangeCode({
+ *   clientId: process.env.DISCORD_CLIENT_ID,
+ *   clientSecret: process.env.DISCORD_CLIENT_SECRET,
+ *   redirectUri: 'https://yourapp.com/callback',
+ *   code,
+ *   codeVerifier, // when the hook uses `pkce: true`
+ * });
+ * ```
+ *
+ * @packageDocumentation
+ */
+
+import type { DiscordEndpoints, ErrorResponse, RefreshableTokenResponse } from './DiscordLoginTypes.js';
+import { getApiUrl } from './endpoints.js';
+import { DiscordTokenError } from './errors.js';
+
+/**
+ * Credentials of the Discord application.
+ *
+ * @public
+ */
+export interface ClientCredentials {
+    /** Discord application client ID */
+    clientId: string;
+    /** Discord application client secret. Never expose it to the browser */
+    clientSecret: string;
+}
+
+/**
+ * Options shared by the token requests.
+ *
+ * @public
+ */
+export interface TokenRequestOptions extends ClientCredentials {
+    /** API base URL and version of the token endpoints, instead of 'https://discord.com/api' */
+    endpoints?: DiscordEndpoints;
+}
+
+/**
+ * Options for `exchangeCode`.
+ *
+ * @public
+ */
+export interface ExchangeCodeOptions extends TokenRequestOptions {
+    /** Authorization code from the callback */
+    code: string;
+    /** Redirect URI used to start the login; must match exactly */
+    redirectUri: string;
+    /** PKCE code verifier returned as `code_verifier` in the `CodeResponse` */
+    codeVerifier?: string;
+}
+
+/**
+ * Options for `refreshToken`.
+ *
+ * @public
+ */
+export interface RefreshTokenOptions extends TokenRequestOptions {
+    /** Refresh token from a previous token response */
+    refreshToken: string;
+}
+
+/**
+ * Options for `revokeToken`.
+ *
+ * @public
+ */
+export interface RevokeTokenOptions extends TokenRequestOptions {
+    /** Access or refresh token to revoke */
+    token: string;
+    /** Which kind of token is revoked */
+    tokenTypeHint?: 'access_token' | 'refresh_token';
+}
+
+const TOKEN_PATH = '/oauth2/token';
+const REVOKE_PATH = '/oauth2/token/revoke';
+
+/**
+ * Reads Discord's OAuth2 error body, falling back to the HTTP status when it is not JSON.
+ *
+ * @internal
+ */
+const readErrorResponse = async (response: Response): Promise<Pick<ErrorResponse, 'error' | 'description'>> => {
+    try {
+        const body = (await response.json()) as { error?: string; error_description?: string; message?: string };
+        return {
+            error: body.error ?? 'unknown_error',
+            description: body.error_description ?? body.message ?? `${response.status} ${response.statusText}`,
+        };
+    } catch {
+        return {
+            error: 'unknown_error',
+            description: `Discord API responded with status: ${response.status} ${response.statusText}`,
+        };
+    }
+};
+
+/**
+ * Posts a form to a Discord OAuth2 endpoint with HTTP Basic client authentication.
+ *
+ * @internal
+ */
+const postForm = async (
+    path: string,
+    { clientId, clientSecret, endpoints }: TokenRequestOptions,
+    form: Record<string, string | undefined>
+): Promise<Response> => {
+    const body = new URLSearchParams();
+    for (const [key, value] of Object.entries(form)) {
+        if (value !== undefined) {
+            body.append(key, value);
+        }
+    }
+
+    let response: Response;
+    try {
+        response = await fetch(getApiUrl(path, endpoints), {
+            method: 'POST',
+            headers: {
+                authorization: `Basic ${btoa(`${clientId}:${clientSecret}`)}`,
+                'content-type': 'application/x-www-form-urlencoded',
+            },
+            body: body.toString(),
+        });
+    } catch (error) {
+        throw new DiscordTokenError(
+            {
+                error: 'network_error',
+                description: error instanceof Error ? error.message : 'Unknown error occurred',
+            },
+            0
+        );
+    }
+
+    if (!response.ok) {
+        throw new DiscordTokenError(await readErrorResponse(response), response.status);
+    }
+
+    return response;
+};
+
+/**
+ * Parses a token endpoint response into a `RefreshableTokenResponse`.
+ *
+ * @internal
+ */
+const parseTokenResponse = async (response: Response): Promise<RefreshableTokenResponse> => {
+    const body = (await response.json().catch(() => null)) as
+        | (Omit<RefreshableTokenResponse, 'scope'> & { scope?: string })
+        | null;
+    if (!body?.access_token) {
+        throw new DiscordTokenError(
+            {
+                error: 'invalid_token_response',
+                description: 'Token endpoint did not return an access token',
+            },
+            response.status
+        );
+    }
+
+    return {
+        token_type: body.token_type,
+        access_token: body.access_token,
+        expires_in: Number(body.expires_in) || 0,
+        refresh_token: body.refresh_token,
+        scope: body.scope ? body.scope.split(' ') : [],
+    };
+};
+
+/**
+ * Exchanges an authorization code for an access and refresh token.
+ *
+ * @param options - Client credentials, code, redirect URI and optional PKCE verifier
+ *
+ * @returns Token response with `refresh_token`
+ *
+ * @throws {DiscordTokenError} When Discord rejects the exchange (e.g. 'invalid_grant'), the request fails or the response is not a token
+ *
+ * @example
+ * ```ts
+ * const token = await exchangeCode({ clientId, clientSecret, redirectUri, code });
+ * console.log(token.access_token, token.expires_in);
+ * ```
+ */
+export const exchangeCode = async ({
+    code,
+    redirectUri,
+    codeVerifier,
+    ...credentials
+}: ExchangeCodeOptions): Promise<RefreshableTokenResponse> => {
+    const response = await postForm(TOKEN_PATH, credentials, {
+        grant_type: 'authorization_code',
+        code,
+        redirect_uri: redirectUri,
+        code_verifier: codeVerifier,
+    });
+    return parseTokenResponse(response);
+};
+
+/**
+ * Obtains a new access token using a refresh token.
+ *
+ * @param options - Client credentials and refresh token
+ *
+ * @returns Token response with a new `refresh_token`
+ *
+ * @throws {DiscordTokenError} When Discord rejects the refresh token, the request fails or the response is not a token
+ *
+ * @example
+ * ```ts
+ * const token = await refreshToken({ clientId, clientSecret, refreshToken: stored.refresh_token });
+ * ```
+ */
+export const refreshToken = async ({
+    refreshToken: token,
+    ...credentials
+}: RefreshTokenOptions): Promise<RefreshableTokenResponse> => {
+    const response = await postForm(TOKEN_PATH, credentials, {
+        grant_type: 'refresh_token',
+        refresh_token: token,
+    });
+    return parseTokenResponse(response);
+};
+
+/**
+ * Revokes an access or refresh token.
+ *
+ * @param options - Client credentials, token and optional token type hint
+ *
+ * @throws {DiscordTokenError} When Discord rejects the request or the request fails
+ *
+ * @example
+ * ```ts
+ * await revokeToken({ clientId, clientSecret, token: session.access_token, tokenTypeHint: 'access_token' });
+ * ```
+ */
+export const revokeToken = async ({ token, tokenTypeHint, ...credentials }: RevokeTokenOptions): Promise<void> => {
+    await postForm(REVOKE_PATH, credentials, {
+        token,
+        token_type_hint: tokenTypeHint,
+    });
+};
+
+export { parseCallbackUrl, stripOAuthParams } from './callbackUrl.js';
+export type {
+    CallbackResponse,
+    DiscordEndpoints,
+    ErrorResponse,
+    RefreshableTokenResponse,
+    TokenResponse,
+} from './DiscordLoginTypes.js';
+export { DiscordTokenError } from './errors.js';
@@ -0,0 +1,125 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import type { StorageLike, TokenResponse } from './DiscordLoginTypes.js';
+import {
+    clearSession,
+    createSession,
+    isSessionExpired,
+    loadSession,
+    SESSION_STORAGE_KEY,
+    saveSession,
+} from './session.js';
+import { createMemoryStorage, createWebStorage, resolveStorage } from './storage.js';
+
+describe('token session', () => {
+    const token: TokenResponse = {
+        token_type: 'Bearer',
+        access_token: 'test-token',
+        expires_in: 3600,
+        scope: ['identify'],
+        user: {
+            id: '123456789012345678',
+            username: 'testuser',
+            discriminator: '0',
+            global_name: 'Test User',
+            avatar: null,
+            banner: null,
+            accent_color: null,
+            locale: 'en-US',
+            verified: true,
+            email: null,
+        },
+    };
+    let storage: StorageLike;
+
+    beforeEach(() => {
+        storage = createMemoryStorage();
+    });
+
+    it('should compute an absolute expiry and keep the user separately', () => {
+        const session = createSession(token, 1_000);
+
+        expect(session.expiresAt).toBe(3_601_000);
+        expect(session.user?.username).toBe('testuser');
+        expect(session.token).not.toHaveProperty('user');
+        expect(isSessionExpired(session, 3_600_999)).toBe(false);
+        expect(isSessionExpired(session, 3_601_000)).toBe(true);
+    });
+
+    it('should round-trip a session through storage', () => {
+        const session = createSession(token, 1_000);
+
+        saveSession(storage, SESSION_STORAGE_KEY, session);
+
+        expect(loadSession(storage, SESSION_STORAGE_KEY, 2_000)).toEqual(session);
+    });
+
+    it('should discard expired sessions', () => {
+        saveSession(storage, SESSION_STORAGE_KEY, createSession(token, 1_000));
+
+        expect(loadSession(storage, SESSION_STORAGE_KEY, 4_000_000)).toBeNull();
+        expect(storage.getItem(SESSION_STORAGE_KEY)).toBeNull();
+    });
+
+    it('should discard malformed sessions', () => {
+        storage.setItem(SESSION_STORAGE_KEY, '{not json');
+        expect(loadSession(storage, SESSION_STORAGE_KEY)).toBeNull();
+
+        storage.setItem(SESSION_STORAGE_KEY, JSON.stringify({ expiresAt: 'soon' }));
+        expect(loadSession(storage, SESSION_STORAGE_KEY)).toBeNull();
+        expect(storage.getItem(SESSION_STORAGE_KEY)).toBeNull();
+    });
+
+    it('should clear a session', () => {
+        saveSession(storage, SESSION_STORAGE_KEY, createSession(token));
+
+        clearSession(storage, SESSION_STORAGE_KEY);
+
+        expect(loadSession(storage, SESSION_STORAGE_KEY)).toBeNull();
+    });
+});
+
+describe('storage adapters', () => {
+    const originalWindow = globalThis.window;
+
+    afterEach(() => {
+        globalThis.window = originalWindow;
+    });
+
+    it('should use the requested Web Storage area', () => {
+        const local = createMemoryStorage();
+        globalThis.window = { localStorage: local } as unknown as Window & typeof globalThis;
+
+        createWebStorage('localStorage').setItem('key', 'value');
+
+        expect(local.getItem('key')).toBe('value');
+    });
+
+    it('should fall back to memory when Web Storage throws', () => {
+        const failing: StorageLike = {
+            getItem: () => {
+                throw new Error('SecurityError');
+            },
+            setItem: () => {
+                throw new Error('QuotaExceededError');
+            },
+            removeItem: () => {
+                throw new Error('SecurityError');
+            },
+        };
+        globalThis.window = { sessionStorage: failing } as unknown as Window & typeof globalThis;
+        const adapter = createWebStorage('sessionStorage');
+
+        adapter.setItem('key', 'value');
+
+        expect(adapter.getItem('key')).toBe('value');
+        adapter.removeItem('key');
+        expect(adapter.getItem('key')).toBeNull();
+    });
+
+    it('should resolve named storages and pass custom adapters through', () => {
+        const custom = createMemoryStorage();
+
+        expect(resolveStorage(custom)).toBe(custom);
+        expect(resolveStorage('memory')).toBe(resolveStorage('memory'));
+    });
+});
@@ -0,0 +1,98 @@
+import type { DiscordSession, StorageLike, TokenResponse } from './DiscordLoginTypes.js';
+
+/**
+ * Default storage key of the token session.
+ *
+ * @internal
+ */
+export const SESSION_STORAGE_KEY = 'react-discord-login:session';
+
+/**
+ * Creates a session from a token response, converting `expires_in` to an absolute expiry.
+ *
+ * @param token - Token response, optionally including the fetched user
+ * @param now - Current time in milliseconds, defaults to `Date.now()`
+ *
+ * @returns Session with an absolute `expiresAt` timestamp
+ *
+ * @example
+ * ```ts
+ * const session = createSession({ token_type: 'Bearer', access_token: 'abc', expires_in: 604800, scope: ['identify'] });
+ * session.expiresAt; // Date.now() + 7 days
+ * ```
+ */
+export const createSession = ({ user, ...token }: TokenResponse, now: number = Date.now()): DiscordSession => ({
+    token,
+    user,
+    expiresAt: now + token.expires_in * 1000,
+});
+
+/**
+ * Determines if a session's access token has expired.
+ *
+ * @param session - Session to check
+ * @param now - Current time in milliseconds, defaults to `Date.now()`
+ *
+ * @returns True when the expiry time has been reached
+ */
+export const isSessionExpired = (session: DiscordSession, now: number = Date.now()): boolean =>
+    session.expiresAt <= now;
+
+/**
+ * Persists a session.
+ *
+ * @param storage - Storage adapter
+ * @param key - Storage key
+ * @param session - Session to persist
+ *
+ * @internal
+ */
+export const saveSession = (storage: StorageLike, key: string, session: DiscordSession): void => {
+    storage.setItem(key, JSON.stringify(session));
+};
+
+/**
+ * Loads a persisted session, discarding it when it is malformed or expired.
+ *
+ * @param storage - Storage adapter
+ * @param key - Storage key
+ * @param now - Current time in milliseconds, defaults to `Date.now()`
+ *
+ * @returns The stored session, or null when there is no valid session
+ *
+ * @internal
+ */
+export const loadSession = (storage: StorageLike, key: string, now: number = Date.now()): DiscordSession | null => {
+    const raw = storage.getItem(key);
+    if (!raw) {
+        return null;
+    }
+
+    try {
+        const session = JSON.parse(raw) as DiscordSession;
+        if (typeof session?.expiresAt !== 'number' || typeof session.token?.access_token !== 'string') {
+            storage.removeItem(key);
+            return null;
+        }
+        if (isSessionExpired(session, now)) {
+            storage.removeItem(key);
+            return null;
+        }
+        return session;
+    } catch {
+        storage.removeItem(key);
+        return null;
+    }
+};
+
+/**
+ * Removes a persisted session.
+ *
+ * @param storage - Storage adapter
+ * @param key - Storage key
+ *
+ * @internal
+ */
+export const clearSession = (storage: StorageLike, key: string): void => {
+    storage.removeItem(key);
+};
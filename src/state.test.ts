@@ -0,0 +1,109 @@
+import { beforeEach, describe, expect, it } from 'bun:test';
+import type { CallbackResponse, StorageLike } from './DiscordLoginTypes.js';
+import { consumeState, createState, STATE_STORAGE_KEY, verifyCallbackState } from './state.js';
+import { createMemoryStorage, MAX_PENDING_ENTRIES } from './storage.js';
+
+describe('OAuth2 state', () => {
+    let storage: StorageLike;
+
+    beforeEach(() => {
+        storage = createMemoryStorage();
+    });
+
+    it('should generate a random url-safe state and persist it', () => {
+        const first = createState(storage);
+        const second = createState(storage);
+
+        expect(first).toMatch(/^[A-Za-z0-9_-]{22}$/);
+        expect(second).not.toBe(first);
+        expect(storage.getItem(STATE_STORAGE_KEY)).toContain(second);
+    });
+
+    it('should keep earlier login attempts pending when a new state is created', () => {
+        const first = createState(storage);
+        const second = createState(storage);
+
+        expect(consumeState(storage, first).valid).toBe(true);
+        expect(consumeState(storage, second).valid).toBe(true);
+        expect(storage.getItem(STATE_STORAGE_KEY)).toBeNull();
+    });
+
+    it('should drop the oldest pending states beyond the limit', () => {
+        const states = Array.from({ length: MAX_PENDING_ENTRIES + 1 }, () => createState(storage));
+
+        expect(consumeState(storage, states[0]).valid).toBe(false);
+        expect(consumeState(storage, states[1]).valid).toBe(true);
+        expect(consumeState(storage, states[MAX_PENDING_ENTRIES]).valid).toBe(true);
+    });
+
+    it('should accept a matching state once and return the embedded payload', () => {
+        const state = createState(storage, { returnTo: '/settings', ids: [1, 2] });
+
+        expect(consumeState(storage, state)).toEqual({ valid: true, payload: { returnTo: '/settings', ids: [1, 2] } });
+        expect(consumeState(storage, state).valid).toBe(false);
+    });
+
+    it('should reject a missing or mismatched state', () => {
+        createState(storage);
+        expect(consumeState(storage, undefined).valid).toBe(false);
+
+        createState(storage);
+        expect(consumeState(storage, 'forged-state').valid).toBe(false);
+    });
+
+    it('should reject a callback when no login attempt is pending', () => {
+        expect(consumeState(storage, 'some-state').valid).toBe(false);
+    });
+
+    it('should turn a code callback without valid state into an invalid_state error', () => {
+        createState(storage);
+        const response: CallbackResponse = { type: 'code', code: { code: 'crafted' } };
+
+        const verified = verifyCallbackState(response, storage);
+
+        expect(verified.type).toBe('error');
+        expect(verified.error?.error).toBe('invalid_state');
+        expect(verified.error?.source).toBe('state');
+        expect(verified.code).toBeUndefined();
+    });
+
+    it('should attach the payload to verified code and token responses', () => {
+        const codeState = createState(storage, 'code-payload');
+        const code = verifyCallbackState({ type: 'code', state: codeState, code: { code: 'abc' } }, storage);
+        expect(code.code).toEqual({ code: 'abc', payload: 'code-payload' });
+
+        const tokenState = createState(storage, { from: 'token' });
+        const token = verifyCallbackState(
+            {
+                type: 'token',
+                state: tokenState,
+                token: { token_type: 'Bearer', access_token: 'token', expires_in: 3600, scope: ['identify'] },
+            },
+            storage
+        );
+        expect(token.token?.payload).toEqual({ from: 'token' });
+    });
+
+    it('should pass Discord errors through and clear the pending state', () => {
+        const state = createState(storage);
+        const response: CallbackResponse = {
+            type: 'error',
+            state,
+            error: {
+                error: 'access_denied',
+                description: 'The resource owner or authorization server denied the request',
+                source: 'authorization',
+            },
+        };
+
+        expect(verifyCallbackState(response, storage)).toEqual(response);
+        expect(storage.getItem(STATE_STORAGE_KEY)).toBeNull();
+    });
+
+    it('should ignore non-callback responses', () => {
+        const state = createState(storage);
+
+        expect(verifyCallbackState({ type: null }, storage)).toEqual({ type: null });
+        expect(consumeState(storage, state).valid).toBe(true);
+    });
+});
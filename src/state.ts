@@ -0,0 +1,129 @@
+import type { CallbackResponse, StorageLike } from './DiscordLoginTypes.js';
+import { base64UrlDecode, base64UrlEncode, randomString } from './encoding.js';
+import { addPendingEntry, takePendingEntry } from './storage.js';
+
+/**
+ * Storage key holding the states of the pending login attempts.
+ *
+ * @internal
+ */
+export const STATE_STORAGE_KEY = 'react-discord-login:state';
+
+/**
+ * Result of checking a returned state against the stored one.
+ *
+ * @internal
+ */
+type StateCheck = { valid: true; payload?: unknown } | { valid: false; description: string };
+
+const decodePayload = (state: string): unknown => {
+    const separator = state.indexOf('.');
+    if (separator === -1) {
+        return undefined;
+    }
+    const json = new TextDecoder().decode(base64UrlDecode(state.slice(separator + 1)));
+    return JSON.parse(json);
+};
+
+/**
+ * Generates a new OAuth2 `state` value for a login attempt and persists it.
+ *
+ * The state is a random nonce, optionally followed by `.` and the base64url encoded JSON of an
+ * application payload. Several login attempts can be pending at once, e.g. two rendered login
+ * links; each state is accepted once, and the oldest are dropped after ten newer ones.
+ *
+ * @param storage - Storage used to persist the state across the redirect
+ * @param payload - Optional JSON-serializable application data returned in `onSuccess`
+ *
+ * @returns State value to send as the `state` authorize parameter
+ *
+ * @internal
+ */
+export const createState = (storage: StorageLike, payload?: unknown): string => {
+    const nonce = randomString(16);
+    const state =
+        payload === undefined
+            ? nonce
+            : `${nonce}.${base64UrlEncode(new TextEncoder().encode(JSON.stringify(payload)))}`;
+    addPendingEntry(storage, STATE_STORAGE_KEY, state, '');
+    return state;
+};
+
+/**
+ * Checks a returned state against the pending login attempts and clears the matching one.
+ *
+ * @param storage - Storage holding the state created by `createState`
+ * @param state - State value returned by Discord in the callback
+ *
+ * @returns Whether the state matched, with the decoded payload when it did
+ *
+ * @internal
+ */
+export const consumeState = (storage: StorageLike, state: string | undefined): StateCheck => {
+    if (!state) {
+        return { valid: false, description: 'OAuth2 callback is missing the state parameter' };
+    }
+
+    if (takePendingEntry(storage, STATE_STORAGE_KEY, state) === undefined) {
+        return { valid: false, description: 'OAuth2 state parameter does not match a pending login attempt' };
+    }
+
+    try {
+        return { valid: true, payload: decodePayload(state) };
+    } catch {
+        return { valid: false, description: 'OAuth2 state payload could not be decoded' };
+    }
+};
+
+/**
+ * Verifies the `state` of a parsed callback response against the pending login attempts.
+ *
+ * Successful responses with a missing or mismatched state are turned into an `invalid_state`
+ * error response. Matching responses get the application payload embedded in the state attached
+ * as `payload`. Error responses from Discord are passed through unchanged, but still clear their
+ * pending state.
+ *
+ * @param response - Parsed callback response
+ * @param storage - Storage holding the state created by `createState`
+ *
+ * @returns The verified response, or an `invalid_state` error response
+ *
+ * @internal
+ */
+export const verifyCallbackState = (response: CallbackResponse, storage: StorageLike): CallbackResponse => {
+    if (response.type === null) {
+        return response;
+    }
+
+    const check = consumeState(storage, response.state);
+
+    if (response.type === 'error') {
+        return response;
+    }
+
+    if (!check.valid) {
+        return {
+            type: 'error',
+            state: response.state,
+            error: {
+                error: 'invalid_state',
+                description: check.description,
+                source: 'state',
+            },
+        };
+    }
+
+    if (check.payload === undefined) {
+        return response;
+    }
+
+    if (response.code) {
+        return { ...response, code: { ...response.code, payload: check.payload } };
+    }
+
+    if (response.token) {
+        return { ...response, token: { ...response.token, payload: check.payload } };
+    }
+
+    return response;
+};
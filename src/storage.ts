@@ -0,0 +1,191 @@
+import type { StorageLike, StorageOption } from './DiscordLoginTypes.js';
+
+/**
+ * Creates a storage adapter that keeps values in memory for the lifetime of the page.
+ *
+ * @returns In-memory storage adapter
+ *
+ * @example
+ * ```ts
+ * const storage = createMemoryStorage();
+ * storage.setItem('key', 'value');
+ * storage.getItem('key'); // 'value'
+ * ```
+ */
+export const createMemoryStorage = (): StorageLike => {
+    const values = new Map<string, string>();
+    return {
+        getItem: (key) => values.get(key) ?? null,
+        setItem: (key, value) => {
+            values.set(key, value);
+        },
+        removeItem: (key) => {
+            values.delete(key);
+        },
+    };
+};
+
+/**
+ * Fallback used when `sessionStorage` is unavailable (SSR, sandboxed iframes, privacy modes).
+ *
+ * @internal
+ */
+const memoryStorage = createMemoryStorage();
+
+/**
+ * Creates a storage adapter backed by `window.sessionStorage` or `window.localStorage`.
+ *
+ * Falls back to an in-memory storage when the Web Storage API is unavailable or throws
+ * (SSR, sandboxed iframes, privacy modes, quota errors).
+ *
+ * @param kind - Which Web Storage area to use
+ *
+ * @returns Storage adapter
+ *
+ * @example
+ * ```ts
+ * const storage = createWebStorage('localStorage');
+ * ```
+ */
+export const createWebStorage = (kind: 'sessionStorage' | 'localStorage'): StorageLike => {
+    const fallback = createMemoryStorage();
+    const getArea = (): StorageLike => {
+        try {
+            if (typeof window !== 'undefined' && window[kind]) {
+                return window[kind];
+            }
+        } catch {
+            // noop: accessing Web Storage can throw when storage is disabled
+        }
+        return fallback;
+    };
+
+    return {
+        getItem: (key) => {
+            try {
+                return getArea().getItem(key);
+            } catch {
+                return fallback.getItem(key);
+            }
+        },
+        setItem: (key, value) => {
+            try {
+                getArea().setItem(key, value);
+            } catch {
+                fallback.setItem(key, value);
+            }
+        },
+        removeItem: (key) => {
+            try {
+                getArea().removeItem(key);
+            } catch {
+                // noop: nothing to remove from an unusable storage
+            }
+            fallback.removeItem(key);
+        },
+    };
+};
+
+/**
+ * Resolves a storage option to a storage adapter.
+ *
+ * @param option - Named storage (`'memory'`, `'sessionStorage'`, `'localStorage'`) or a custom adapter
+ *
+ * @returns Storage adapter. `'memory'` resolves to a storage shared by all hooks on the page
+ *
+ * @internal
+ */
+export const resolveStorage = (option: StorageOption): StorageLike => {
+    if (option === 'memory') {
+        return memoryStorage;
+    }
+    if (option === 'sessionStorage' || option === 'localStorage') {
+        return createWebStorage(option);
+    }
+    return option;
+};
+
+/**
+ * Returns the storage used to persist per-login values across the OAuth2 redirect.
+ *
+ * @returns `window.sessionStorage` when accessible, otherwise a shared in-memory storage
+ *
+ * @internal
+ */
+export const getDefaultStorage = (): StorageLike => {
+    try {
+        if (typeof window !== 'undefined' && window.sessionStorage) {
+            return window.sessionStorage;
+        }
+    } catch {
+        // noop: accessing sessionStorage can throw when storage is disabled
+    }
+    return memoryStorage;
+};
+
+/**
+ * Number of login attempts kept pending per storage key; the oldest are dropped first.
+ *
+ * @internal
+ */
+export const MAX_PENDING_ENTRIES = 10;
+
+const readPendingEntries = (storage: StorageLike, key: string): [string, string][] => {
+    try {
+        const entries: unknown = JSON.parse(storage.getItem(key) ?? '[]');
+        return Array.isArray(entries)
+            ? entries.filter(
+                  (entry): entry is [string, string] =>
+                      Array.isArray(entry) && typeof entry[0] === 'string' && typeof entry[1] === 'string'
+              )
+            : [];
+    } catch {
+        return [];
+    }
+};
+
+const writePendingEntries = (storage: StorageLike, key: string, entries: [string, string][]) => {
+    if (entries.length === 0) {
+        storage.removeItem(key);
+    } else {
+        storage.setItem(key, JSON.stringify(entries));
+    }
+};
+
+/**
+ * Stores a value for a pending login attempt, next to the values of other pending attempts.
+ *
+ * @param storage - Storage used to persist the value across the redirect
+ * @param key - Storage key holding the pending values
+ * @param id - Identifier of the login attempt; replaces an existing value with the same id
+ * @param value - Value to store
+ *
+ * @internal
+ */
+export const addPendingEntry = (storage: StorageLike, key: string, id: string, value: string) => {
+    const entries = readPendingEntries(storage, key).filter(([entryId]) => entryId !== id);
+    entries.push([id, value]);
+    writePendingEntries(storage, key, entries.slice(-MAX_PENDING_ENTRIES));
+};
+
+/**
+ * Reads and removes the value stored for a pending login attempt.
+ *
+ * @param storage - Storage holding the pending values
+ * @param key - Storage key holding the pending values
+ * @param id - Identifier of the login attempt
+ *
+ * @returns The stored value, or undefined when the attempt is not pending
+ *
+ * @internal
+ */
+export const takePendingEntry = (storage: StorageLike, key: string, id: string): string | undefined => {
+    const entries = readPendingEntries(storage, key);
+    const index = entries.findIndex(([entryId]) => entryId === id);
+    if (index === -1) {
+        return undefined;
+    }
+    const [[, value]] = entries.splice(index, 1);
+    writePendingEntries(storage, key, entries);
+    return value;
+};
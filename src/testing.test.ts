@@ -0,0 +1,167 @@
+import { afterEach, describe, expect, it } from 'bun:test';
+import { act, cleanup, renderHook, waitFor } from '@testing-library/react';
+import { resetCallbackClaims } from './callbackCoordinator.js';
+import { createMemoryLocation } from './location.js';
+import { exchangeCode, refreshToken } from './server.js';
+import { createMemoryStorage } from './storage.js';
+import { createFakeDiscord, createTokenResponse, createUser, simulateCallback } from './testing.js';
+import useDiscordLogin from './useDiscordLogin.js';
+import { fetchGuildMember, fetchGuilds, fetchUser, generateUrl, normalizeDiscordConfig } from './utils.js';
+
+describe('fixture builders', () => {
+    it('should build complete users and tokens with unique IDs', () => {
+        const first = createUser({ username: 'wumpus' });
+        const second = createUser();
+
+        expect(first).toMatchObject({ username: 'wumpus', discriminator: '0', email: null });
+        expect(first.id).toMatch(/^\d{18}$/);
+        expect(second.id).not.toBe(first.id);
+        expect(createTokenResponse({ scope: ['identify', 'email'] })).toMatchObject({
+            token_type: 'Bearer',
+            expires_in: 604800,
+            scope: ['identify', 'email'],
+        });
+    });
+});
+
+describe('createFakeDiscord', () => {
+    const credentials = { clientId: '123456789012345678', clientSecret: 'secret' };
+    const redirectUri = 'http://localhost:3000/callback';
+    let restore: (() => void) | undefined;
+
+    afterEach(() => {
+        restore?.();
+        restore = undefined;
+    });
+
+    it('should serve the user, guilds and members of issued tokens', async () => {
+        const user = createUser({ username: 'wumpus', email: 'wumpus@discord.com' });
+        const discord = createFakeDiscord({
+            users: [user],
+            guilds: [{ id: '1', name: 'Guild', icon: null, banner: null, owner: true, permissions: '8', features: [] }],
+        });
+        restore = discord.install();
+        const token = discord.issueToken(user, ['identify', 'guilds']);
+
+        expect(await fetchUser(token)).toEqual({ ...user, email: null });
+        expect(await fetchGuilds(token)).toHaveLength(1);
+        await expect(fetchGuildMember(token, '1')).rejects.toMatchObject({ status: 404, code: 10004 });
+        await expect(fetchUser(createTokenResponse(), { retry: false })).rejects.toMatchObject({ status: 401 });
+        expect(discord.requests.map(({ url }) => url)).toContain('https://discord.com/api/users/@me');
+    });
+
+    it('should run the code flow end to end with PKCE', async () => {
+        const discord = createFakeDiscord();
+        restore = discord.install();
+        const config = normalizeDiscordConfig({ clientId: credentials.clientId, redirectUri, scopes: ['identify'] });
+        const codeVerifier = 'dBjftJeZ4CVP-mB92K27uhbUJU1p1r_wW1gFWFOEjXk';
+        const url = generateUrl(config, {
+            state: 'xyz',
+            codeChallenge: 'E9Melhoa2OwvFrEMTJguCHaoeK1t8URWbuGJSstw-cM',
+        });
+
+        const redirect = await fetch(url);
+        const callback = new URL(redirect.headers.get('location') ?? '');
+        const code = callback.searchParams.get('code') ?? '';
+
+        expect(redirect.status).toBe(302);
+        expect(callback.origin + callback.pathname).toBe(redirectUri);
+        expect(callback.searchParams.get('state')).toBe('xyz');
+        await expect(
+            exchangeCode({ ...credentials, redirectUri, code, codeVerifier: 'wrong-verifier' })
+        ).rejects.toMatchObject({ error: 'invalid_grant', status: 400 });
+
+        // The failed exchange used up the code
+        const retry = new URL(discord.authorize(url)).searchParams.get('code') ?? '';
+        const token = await exchangeCode({ ...credentials, redirectUri, code: retry, codeVerifier });
+        expect(await fetchUser(token)).toEqual(discord.users[0]);
+
+        const refreshed = await refreshToken({ ...credentials, refreshToken: token.refresh_token });
+        expect(refreshed.access_token).not.toBe(token.access_token);
+        await expect(fetchUser(token, { retry: false })).rejects.toMatchObject({ status: 401 });
+    });
+
+    it('should serve the configured endpoints', async () => {
+        const endpoints = {
+            authorizeUrl: 'http://localhost:4000/oauth2/authorize',
+            apiBaseUrl: 'http://localhost:4000/api',
+            apiVersion: 10,
+        };
+        const discord = createFakeDiscord({ endpoints });
+        restore = discord.install();
+        const config = normalizeDiscordConfig({ clientId: credentials.clientId, redirectUri, endpoints });
+
+        const redirect = await fetch(generateUrl(config));
+        const code = new URL(redirect.headers.get('location') ?? '').searchParams.get('code') ?? '';
+        const token = await exchangeCode({ ...credentials, redirectUri, code, endpoints });
+
+        expect(await fetchUser(token, { endpoints })).toEqual(discord.users[0]);
+        expect(discord.requests.map(({ url }) => url)).toContain('http://localhost:4000/api/v10/users/@me');
+        // Discord itself is not served anymore
+        await expect(fetchUser(token, { retry: false })).rejects.toMatchObject({ status: 404 });
+    });
+
+    it('should redirect back with the configured error', () => {
+        const discord = createFakeDiscord({ authorization: { type: 'error', error: 'access_denied' } });
+        const config = normalizeDiscordConfig({ clientId: credentials.clientId, redirectUri });
+
+        expect(discord.authorize(generateUrl(config, { state: 'xyz' }))).toBe(
+            'http://localhost:3000/callback?error=access_denied&error_description=&state=xyz'
+        );
+    });
+});
+
+describe('simulateCallback', () => {
+    let restore: (() => void) | undefined;
+
+    afterEach(() => {
+        cleanup();
+        resetCallbackClaims();
+        restore?.();
+        restore = undefined;
+    });
+
+    it('should log in a mounted hook as the given user', async () => {
+        restore = createFakeDiscord().install();
+        const user = createUser({ username: 'wumpus' });
+        const location = createMemoryLocation('http://localhost:3000/');
+        const { result } = renderHook(() =>
+            useDiscordLogin({
+                clientId: '123456789012345678',
+                redirectUri: 'http://localhost:3000/callback',
+                responseType: 'token',
+                state: false,
+                storage: createMemoryStorage(),
+                location,
+            })
+        );
+
+        let url = '';
+        act(() => {
+            url = simulateCallback({ type: 'token', user, location });
+        });
+
+        expect(url).toStartWith('http://localhost:3000/callback#');
+        await waitFor(() => expect(result.current.status).toBe('success'));
+        expect(result.current.user).toEqual(user);
+        expect(location.getUrl()).toBe('http://localhost:3000/callback');
+    });
+
+    it('should build code and error callbacks', () => {
+        const location = createMemoryLocation('http://localhost:3000/');
+
+        expect(simulateCallback({ type: 'code', code: 'abc', state: 'xyz', location })).toBe(
+            'http://localhost:3000/callback?code=abc&state=xyz'
+        );
+        expect(simulateCallback({ type: 'error', redirectUri: '/login', location })).toBe(
+            'http://localhost:3000/login?error=access_denied&error_description='
+        );
+        expect(location.getUrl()).toBe('http://localhost:3000/login?error=access_denied&error_description=');
+    });
+
+    it('should require a fake server for token callbacks', () => {
+        expect(() => simulateCallback({ type: 'token', location: createMemoryLocation() })).toThrow(
+            'simulateCallback needs a fake Discord server'
+        );
+    });
+});
@@ -0,0 +1,589 @@
+/**
+ * @fileoverview React Discord Login - testing toolkit
+ *
+ * A local stand-in for Discord's OAuth2 and REST API, so apps built on `useDiscordLogin` can be tested
+ * without hand-stubbing `window.location`, `history` and `fetch`. The fake server answers the authorize,
+ * token and `/users/@me` endpoints from fixture users; `simulateCallback` lands the browser (or a memory
+ * location) on the redirect URI as if Discord had just redirected back.
+ *
+ * @example Testing a token flow login
+ * ```tsx
+ * import { createFakeDiscord, createUser, simulateCallback } from 'react-discord-login/testing';
+ *
+ * const discord = createFakeDiscord();
+ * const restore = discord.install();
+ * const location = createMemoryLocation('http://localhost/');
+ *
+ * const { result } = renderHook(() => useDiscordLogin({ clientId, responseType: 'token', state: false, location }));
+ * act(() => {
+ *   simulateCallback({ type: 'token', user: createUser({ username: 'wumpus' }), location });
+ * });
+ * await waitFor(() => expect(result.current.user?.username).toBe('wumpus'));
+ * restore();
+ * ```
+ *
+ * @packageDocumentation
+ */
+
+import type {
+    Connection,
+    DiscordEndpoints,
+    ErrorCode,
+    GuildMember,
+    MemoryLocationAdapter,
+    PartialGuild,
+    RefreshableTokenResponse,
+    TokenResponse,
+    User,
+} from './DiscordLoginTypes.js';
+import { getApiBaseUrl, getAuthorizeUrl } from './endpoints.js';
+import { createBrowserLocation } from './location.js';
+import { createCodeChallenge } from './pkce.js';
+
+let fixtureSequence = 0;
+
+/**
+ * Returns a unique, snowflake-shaped fixture ID.
+ *
+ * @internal
+ */
+const nextId = (): string => {
+    fixtureSequence += 1;
+    return `1${String(fixtureSequence).padStart(17, '0')}`;
+};
+
+/**
+ * Builds a Discord user fixture.
+ *
+ * @param overrides - Fields to override; the ID is unique unless given
+ *
+ * @returns User with every field set
+ *
+ * @example
+ * ```ts
+ * const user = createUser({ username: 'wumpus', email: 'wumpus@discord.com' });
+ * ```
+ */
+export const createUser = (overrides: Partial<User> = {}): User => {
+    const id = overrides.id ?? nextId();
+    return {
+        id,
+        username: `user${id.slice(-4)}`,
+        discriminator: '0',
+        global_name: null,
+        avatar: null,
+        banner: null,
+        accent_color: null,
+        locale: 'en-US',
+        verified: true,
+        email: null,
+        ...overrides,
+    };
+};
+
+/**
+ * Builds a token response fixture, as received by a token flow callback.
+ *
+ * @param overrides - Fields to override; the access token is unique unless given
+ *
+ * @returns Bearer token response with the 'identify' scope, expiring in 7 days
+ *
+ * @example
+ * ```ts
+ * const token = createTokenResponse({ scope: ['identify', 'guilds'], user: createUser() });
+ * ```
+ */
+export const createTokenResponse = (overrides: Partial<TokenResponse> = {}): TokenResponse => ({
+    token_type: 'Bearer',
+    access_token: `fake-access-token-${nextId()}`,
+    expires_in: 604800,
+    scope: ['identify'],
+    ...overrides,
+});
+
+/**
+ * Builds a partial guild fixture, as returned by `/users/@me/guilds`.
+ *
+ * @param overrides - Fields to override; the ID is unique unless given
+ *
+ * @returns Guild owned by someone else, without permissions
+ */
+export const createGuild = (overrides: Partial<PartialGuild> = {}): PartialGuild => {
+    const id = overrides.id ?? nextId();
+    return {
+        id,
+        name: `Guild ${id.slice(-4)}`,
+        icon: null,
+        banner: null,
+        owner: false,
+        permissions: '0',
+        features: [],
+        ...overrides,
+    };
+};
+
+/**
+ * What the fake authorize endpoint answers: approve the login as a user, or redirect back with an error.
+ *
+ * @public
+ */
+export type FakeAuthorization =
+    | {
+          type: 'approve';
+          /** User logging in. Defaults to the first user of the fake server */
+          user?: User;
+          /** Code to return to 'code' flow logins. Defaults to a unique code */
+          code?: string;
+          /** Access token to return to 'token' flow logins. Defaults to a unique token */
+          accessToken?: string;
+      }
+    | {
+          type: 'error';
+          /** OAuth2 error code, e.g. 'access_denied' */
+          error: ErrorCode;
+          /** Error description. Defaults to an empty string */
+          description?: string;
+      };
+
+/**
+ * Options for `createFakeDiscord`.
+ *
+ * @public
+ */
+export interface FakeDiscordOptions {
+    /** Users known to the server. Defaults to one generated user */
+    users?: User[];
+    /** Guilds returned by `/users/@me/guilds` */
+    guilds?: PartialGuild[];
+    /** Members returned by `/users/@me/guilds/{guildId}/member`, keyed by guild ID */
+    members?: Record<string, GuildMember>;
+    /** Connections returned by `/users/@me/connections` */
+    connections?: Connection[];
+    /** How the authorize endpoint answers. Defaults to approving as the first user */
+    authorization?: FakeAuthorization;
+    /** Lifetime of issued tokens in seconds. Defaults to 604800 (7 days) */
+    expiresIn?: number;
+    /** Authorization URL and API base URL served, matching the `endpoints` of the code under test */
+    endpoints?: DiscordEndpoints;
+}
+
+/**
+ * Request received by the fake server.
+ *
+ * @public
+ */
+export interface FakeDiscordRequest {
+    /** HTTP method */
+    method: string;
+    /** Absolute request URL */
+    url: string;
+}
+
+/**
+ * Local stand-in for Discord's OAuth2 and REST API.
+ *
+ * @public
+ */
+export interface FakeDiscord {
+    /** `fetch` implementation answering the URLs under its endpoints; other URLs get a 404 */
+    fetch: (input: RequestInfo | URL, init?: RequestInit) => Promise<Response>;
+    /** Replaces `globalThis.fetch` with the fake server and returns a function restoring it */
+    install: () => () => void;
+    /** Resolves an authorization URL (e.g. from `buildUrl()`) to the callback URL Discord would redirect to */
+    authorize: (url: string, authorization?: FakeAuthorization) => string;
+    /** Changes how later authorizations are answered */
+    setAuthorization: (authorization: FakeAuthorization) => void;
+    /** Issues an access and refresh token for a user (added to the server if unknown) */
+    issueToken: (user?: User, scope?: string[]) => RefreshableTokenResponse;
+    /** Requests received so far */
+    requests: FakeDiscordRequest[];
+    /** Users known to the server */
+    users: User[];
+}
+
+type IssuedCode = {
+    user: User;
+    scope: string[];
+    redirectUri: string | null;
+    codeChallenge: string | null;
+};
+
+type IssuedToken = {
+    user: User;
+    token: RefreshableTokenResponse;
+};
+
+// Fake server installed with `install()`, used by `simulateCallback` to register token users
+let installedDiscord: FakeDiscord | null = null;
+
+const jsonResponse = (body: unknown, status = 200): Response =>
+    new Response(JSON.stringify(body), { status, headers: { 'content-type': 'application/json' } });
+
+/**
+ * Resolves a request URL to the endpoint it targets, e.g. '/users/@me', or null for other hosts.
+ *
+ * The authorization URL maps to '/oauth2/authorize'. Under the API base, the `/v{n}` prefix is
+ * stripped so every API version is served alike.
+ *
+ * @internal
+ */
+const getEndpoint = (url: URL, endpoints: DiscordEndpoints): string | null => {
+    const authorizeUrl = new URL(getAuthorizeUrl(endpoints));
+    if (url.origin === authorizeUrl.origin && url.pathname === authorizeUrl.pathname) {
+        return '/oauth2/authorize';
+    }
+    const apiBaseUrl = new URL(getApiBaseUrl({ apiBaseUrl: endpoints.apiBaseUrl }));
+    const basePath = apiBaseUrl.pathname.replace(/\/+$/, '');
+    if (url.origin !== apiBaseUrl.origin || !url.pathname.startsWith(`${basePath}/`)) {
+        return null;
+    }
+    return url.pathname.slice(basePath.length).replace(/^\/v\d+(?=\/)/, '');
+};
+
+/**
+ * Creates a fake Discord server for tests.
+ *
+ * Serves the endpoints used by this library:
+ * - `GET /oauth2/authorize`: redirects (302) to `redirect_uri` with a code, a token fragment or an error
+ * - `POST /oauth2/token`: exchanges issued codes (checking `redirect_uri` and the PKCE verifier) and refresh tokens
+ * - `POST /oauth2/token/revoke`: revokes a token
+ * - `GET /users/@me`, `/users/@me/guilds`, `/users/@me/guilds/{guildId}/member`, `/users/@me/connections`
+ *
+ * Unknown or revoked tokens get Discord's 401 body; unknown codes get an 'invalid_grant' error.
+ * With `endpoints`, the configured authorization URL and API base URL are served instead of discord.com.
+ *
+ * @param options - Fixture users, guilds, members, connections and the authorize answer
+ *
+ * @returns Fake server
+ *
+ * @example
+ * ```ts
+ * const discord = createFakeDiscord({ users: [createUser({ username: 'wumpus' })] });
+ * const restore = discord.install();
+ *
+ * // Code flow end to end: state and PKCE checks run as in production
+ * location.navigate(discord.authorize(result.current.buildUrl()));
+ * const token = await exchangeCode({ clientId, clientSecret, redirectUri, code, codeVerifier });
+ *
+ * restore();
+ * ```
+ */
+export const createFakeDiscord = ({
+    users = [createUser()],
+    guilds = [],
+    members = {},
+    connections = [],
+    authorization = { type: 'approve' },
+    expiresIn = 604800,
+    endpoints = {},
+}: FakeDiscordOptions = {}): FakeDiscord => {
+    const codes = new Map<string, IssuedCode>();
+    const accessTokens = new Map<string, IssuedToken>();
+    const refreshTokens = new Map<string, IssuedToken>();
+    let currentAuthorization = authorization;
+
+    const issueToken = (user: User = users[0], scope: string[] = ['identify']): RefreshableTokenResponse => {
+        if (!users.some(({ id }) => id === user.id)) {
+            users.push(user);
+        }
+        const token: RefreshableTokenResponse = {
+            ...createTokenResponse({ expires_in: expiresIn, scope }),
+            refresh_token: `fake-refresh-token-${nextId()}`,
+        };
+        accessTokens.set(token.access_token, { user, token });
+        refreshTokens.set(token.refresh_token, { user, token });
+        return token;
+    };
+
+    const revoke = (value: string) => {
+        const issued = accessTokens.get(value) ?? refreshTokens.get(value);
+        if (issued) {
+            accessTokens.delete(issued.token.access_token);
+            refreshTokens.delete(issued.token.refresh_token);
+        }
+    };
+
+    const authorize = (url: string, answer: FakeAuthorization = currentAuthorization): string => {
+        const params = new URL(url).searchParams;
+        const redirectUri = params.get('redirect_uri') ?? '';
+        const state = params.get('state');
+        const scope = (params.get('scope') ?? 'identify').split(' ');
+        const callback = new URL(redirectUri);
+
+        if (answer.type === 'error') {
+            callback.searchParams.set('error', answer.error);
+            callback.searchParams.set('error_description', answer.description ?? '');
+            if (state) {
+                callback.searchParams.set('state', state);
+            }
+            return callback.toString();
+        }
+
+        const user = answer.user ?? users[0];
+        if (params.get('response_type') === 'token') {
+            const token = issueToken(user, scope);
+            if (answer.accessToken) {
+                accessTokens.delete(token.access_token);
+                token.access_token = answer.accessToken;
+                accessTokens.set(token.access_token, { user, token });
+            }
+            const fragment = new URLSearchParams({
+                token_type: token.token_type,
+                access_token: token.access_token,
+                expires_in: String(token.expires_in),
+                scope: scope.join(' '),
+            });
+            if (state) {
+                fragment.set('state', state);
+            }
+            callback.hash = fragment.toString();
+            return callback.toString();
+        }
+
+        const code = answer.code ?? `fake-code-${nextId()}`;
+        codes.set(code, { user, scope, redirectUri, codeChallenge: params.get('code_challenge') });
+        callback.searchParams.set('code', code);
+        if (state) {
+            callback.searchParams.set('state', state);
+        }
+        const guildId = params.get('guild_id');
+        if (guildId && scope.includes('bot')) {
+            callback.searchParams.set('guild_id', guildId);
+            callback.searchParams.set('permissions', params.get('permissions') ?? '0');
+        }
+        return callback.toString();
+    };
+
+    const tokenBody = ({ token }: IssuedToken) => ({ ...token, scope: token.scope.join(' ') });
+
+    const invalidGrant = (description: string) =>
+        jsonResponse({ error: 'invalid_grant', error_description: description }, 400);
+
+    const exchange = (form: URLSearchParams): Response => {
+        const grantType = form.get('grant_type');
+
+        if (grantType === 'authorization_code') {
+            const code = form.get('code') ?? '';
+            const issued = codes.get(code);
+            // Codes are single use
+            codes.delete(code);
+            if (!issued) {
+                return invalidGrant(`Invalid "code" in request.`);
+            }
+            if (issued.redirectUri !== null && issued.redirectUri !== form.get('redirect_uri')) {
+                return invalidGrant('Invalid "redirect_uri" in request.');
+            }
+            if (issued.codeChallenge !== null) {
+                const verifier = form.get('code_verifier');
+                if (!verifier || createCodeChallenge(verifier) !== issued.codeChallenge) {
+                    return invalidGrant('Invalid "code_verifier" in request.');
+                }
+            }
+            const token = issueToken(issued.user, issued.scope);
+            return jsonResponse(tokenBody({ user: issued.user, token }));
+        }
+
+        if (grantType === 'refresh_token') {
+            const issued = refreshTokens.get(form.get('refresh_token') ?? '');
+            if (!issued) {
+                return invalidGrant('Invalid "refresh_token" in request.');
+            }
+            revoke(issued.token.refresh_token);
+            const token = issueToken(issued.user, issued.token.scope);
+            return jsonResponse(tokenBody({ user: issued.user, token }));
+        }
+
+        return jsonResponse({ error: 'unsupported_grant_type', error_description: 'Unsupported grant type' }, 400);
+    };
+
+    const serveApi = (endpoint: string, authorizationHeader: string | null): Response => {
+        const accessToken = authorizationHeader?.replace(/^Bearer /, '') ?? '';
+        const issued = accessTokens.get(accessToken);
+        if (!issued) {
+            return jsonResponse({ message: '401: Unauthorized', code: 0 }, 401);
+        }
+
+        if (endpoint === '/users/@me') {
+            const user = issued.token.scope.includes('email') ? issued.user : { ...issued.user, email: null };
+            return jsonResponse(user);
+        }
+        if (endpoint === '/users/@me/guilds') {
+            return jsonResponse(guilds);
+        }
+        if (endpoint === '/users/@me/connections') {
+            return jsonResponse(connections);
+        }
+        const memberMatch = /^\/users\/@me\/guilds\/([^/]+)\/member$/.exec(endpoint);
+        if (memberMatch) {
+            const member = members[decodeURIComponent(memberMatch[1])];
+            return member
+                ? jsonResponse({ ...member, user: member.user ?? issued.user })
+                : jsonResponse({ message: 'Unknown Guild', code: 10004 }, 404);
+        }
+
+        return jsonResponse({ message: '404: Not Found', code: 0 }, 404);
+    };
+
+    const requests: FakeDiscordRequest[] = [];
+
+    const fakeFetch = async (input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
+        const request = new Request(input, init);
+        const url = new URL(request.url);
+        requests.push({ method: request.method, url: request.url });
+
+        const endpoint = getEndpoint(url, endpoints);
+        if (endpoint === null) {
+            return jsonResponse({ message: '404: Not Found', code: 0 }, 404);
+        }
+        if (endpoint === '/oauth2/authorize') {
+            return new Response(null, { status: 302, headers: { location: authorize(request.url) } });
+        }
+        if (endpoint === '/oauth2/token' && request.method === 'POST') {
+            return exchange(new URLSearchParams(await request.text()));
+        }
+        if (endpoint === '/oauth2/token/revoke' && request.method === 'POST') {
+            revoke(new URLSearchParams(await request.text()).get('token') ?? '');
+            return jsonResponse({});
+        }
+
+        return serveApi(endpoint, request.headers.get('authorization'));
+    };
+
+    const discord: FakeDiscord = {
+        fetch: fakeFetch,
+        install: () => {
+            const previousFetch = globalThis.fetch;
+            const previousDiscord = installedDiscord;
+            globalThis.fetch = fakeFetch as typeof fetch;
+            installedDiscord = discord;
+            return () => {
+                globalThis.fetch = previousFetch;
+                installedDiscord = previousDiscord;
+            };
+        },
+        authorize,
+        setAuthorization: (answer) => {
+            currentAuthorization = answer;
+        },
+        issueToken,
+        requests,
+        users,
+    };
+
+    return discord;
+};
+
+/**
+ * Options for `simulateCallback`: the callback to land on, plus where to land.
+ *
+ * @public
+ */
+export type SimulateCallbackOptions = (
+    | {
+          type: 'code';
+          /** Authorization code. Defaults to a unique code */
+          code?: string;
+          /** Guild ID of bot authorizations */
+          guildId?: string;
+          /** Permissions of bot authorizations */
+          permissions?: string;
+      }
+    | {
+          type: 'token';
+          /** User returned by `/users/@me` for the token; requires a fake server */
+          user?: User;
+          /** Token fields to override; an overridden `access_token` is unknown to the fake server */
+          token?: Partial<TokenResponse>;
+      }
+    | {
+          type: 'error';
+          /** OAuth2 error code. Defaults to 'access_denied' */
+          error?: ErrorCode;
+          /** Error description. Defaults to an empty string */
+          description?: string;
+      }
+) & {
+    /** Redirect URI the callback lands on. Defaults to `/callback` on the current origin */
+    redirectUri?: string;
+    /** OAuth2 state to return, for hooks verifying it */
+    state?: string;
+    /** Fake server issuing the token of token callbacks. Defaults to the installed one */
+    discord?: FakeDiscord;
+    /** Memory location to navigate. Defaults to replacing the browser URL */
+    location?: MemoryLocationAdapter;
+};
+
+/**
+ * Lands on the redirect URI as if Discord had just redirected back, so a mounted `useDiscordLogin`
+ * processes the callback.
+ *
+ * Navigates `location` when given, otherwise replaces the browser URL with `history.replaceState` and
+ * dispatches `popstate`. Token callbacks get a token issued by the fake server (the installed one unless
+ * `discord` is given), so `/users/@me` returns `user`.
+ *
+ * @param options - Callback type and contents, plus where to land
+ *
+ * @returns The callback URL
+ *
+ * @throws {Error} When a token callback has no fake server to issue its token
+ *
+ * @example
+ * ```ts
+ * simulateCallback({ type: 'token', user: createUser({ username: 'wumpus' }), location });
+ * simulateCallback({ type: 'code', code: 'abc', state: 'xyz', location });
+ * simulateCallback({ type: 'error', error: 'access_denied', location });
+ * ```
+ *
+ * @remarks
+ * - Hooks verify the OAuth2 state by default: pass `state: false` to the hook, the pending `state`, or use
+ *   `discord.authorize(buildUrl())` to run the flow end to end
+ */
+export const simulateCallback = (options: SimulateCallbackOptions): string => {
+    const { redirectUri, state, location } = options;
+    const base = location?.getUrl() || (typeof window === 'undefined' ? '' : window.location.href);
+    const callback = new URL(redirectUri ?? '/callback', base || 'http://localhost/');
+
+    if (options.type === 'code') {
+        callback.searchParams.set('code', options.code ?? `fake-code-${nextId()}`);
+        if (options.guildId) {
+            callback.searchParams.set('guild_id', options.guildId);
+            callback.searchParams.set('permissions', options.permissions ?? '0');
+        }
+        if (state) {
+            callback.searchParams.set('state', state);
+        }
+    } else if (options.type === 'error') {
+        callback.searchParams.set('error', options.error ?? 'access_denied');
+        callback.searchParams.set('error_description', options.description ?? '');
+        if (state) {
+            callback.searchParams.set('state', state);
+        }
+    } else {
+        const discord = options.discord ?? installedDiscord;
+        if (!discord) {
+            throw new Error(
+                'simulateCallback needs a fake Discord server to issue tokens: call createFakeDiscord().install() ' +
+                    'or pass `discord`'
+            );
+        }
+        const token = { ...discord.issueToken(options.user, options.token?.scope), ...options.token };
+        const fragment = new URLSearchParams({
+            token_type: token.token_type,
+            access_token: token.access_token,
+            expires_in: String(token.expires_in),
+            scope: token.scope.join(' '),
+        });
+        if (state) {
+            fragment.set('state', state);
+        }
+        callback.hash = fragment.toString();
+    }
+
+    const url = callback.toString();
+    if (location) {
+        location.navigate(url);
+    } else {
+        createBrowserLocation().replace(callback.pathname + callback.search + callback.hash);
+    }
+    return url;
+};
@@ -0,0 +1,59 @@
+import { afterEach, describe, expect, it, mock, spyOn } from 'bun:test';
+import { watchTokenExpiry } from './tokenExpiry.js';
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('watchTokenExpiry', () => {
+    afterEach(() => {
+        mock.restore();
+    });
+
+    it('should fire the expiring handler before the expired one', async () => {
+        const onExpiring = mock();
+        const onExpired = mock();
+        const stop = watchTokenExpiry(Date.now() + 150, { leadTime: 100, onExpiring, onExpired });
+
+        expect(onExpiring).not.toHaveBeenCalled();
+        await wait(75);
+        expect(onExpiring).toHaveBeenCalledTimes(1);
+        expect(onExpired).not.toHaveBeenCalled();
+        await wait(150);
+        expect(onExpired).toHaveBeenCalledTimes(1);
+        stop();
+    });
+
+    it('should fire the expiring handler right away within the lead time', () => {
+        const onExpiring = mock();
+        const stop = watchTokenExpiry(Date.now() + 30_000, { leadTime: 60_000, onExpiring, onExpired: mock() });
+
+        expect(onExpiring).toHaveBeenCalledTimes(1);
+        stop();
+    });
+
+    it('should re-check the expiry when the page becomes visible again', () => {
+        const onExpiring = mock();
+        const onExpired = mock();
+        const expiresAt = Date.now() + 3_600_000;
+        const stop = watchTokenExpiry(expiresAt, { leadTime: 60_000, onExpiring, onExpired });
+
+        // The tab slept past the expiry and its timers did not fire
+        spyOn(Date, 'now').mockReturnValue(expiresAt + 1);
+        document.dispatchEvent(new Event('visibilitychange'));
+        document.dispatchEvent(new Event('visibilitychange'));
+
+        expect(onExpiring).not.toHaveBeenCalled();
+        expect(onExpired).toHaveBeenCalledTimes(1);
+        stop();
+    });
+
+    it('should stop watching once cancelled', async () => {
+        const onExpired = mock();
+        const stop = watchTokenExpiry(Date.now() + 20, { leadTime: 0, onExpiring: mock(), onExpired });
+
+        stop();
+        await wait(40);
+        document.dispatchEvent(new Event('visibilitychange'));
+
+        expect(onExpired).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,93 @@
+/**
+ * Default time before the expiry at which the token is reported as expiring, in milliseconds.
+ *
+ * @internal
+ */
+export const DEFAULT_EXPIRY_LEAD_TIME = 60_000;
+
+// Longest delay setTimeout supports (~24.8 days); longer waits are re-checked when the timer fires
+const MAX_TIMEOUT = 2_147_483_647;
+
+/**
+ * Handlers of `watchTokenExpiry`.
+ *
+ * @internal
+ */
+type TokenExpiryHandlers = {
+    /** Milliseconds before `expiresAt` at which `onExpiring` fires */
+    leadTime: number;
+    /** Fires once when the lead time before the expiry is reached, unless the token already expired */
+    onExpiring: () => void;
+    /** Fires once when the expiry is reached */
+    onExpired: () => void;
+};
+
+/**
+ * Watches an absolute token expiry and fires the expiring and expired handlers once each.
+ *
+ * Timers are paused or throttled while a tab sleeps, so the expiry is also re-checked whenever the
+ * page becomes visible again. A token found already expired on such a check only fires `onExpired`.
+ *
+ * @param expiresAt - Absolute expiry time in milliseconds since the epoch
+ * @param handlers - Lead time and handlers
+ *
+ * @returns Function cancelling the timer and the visibility listener
+ *
+ * @example
+ * ```ts
+ * const stop = watchTokenExpiry(session.expiresAt, {
+ *   leadTime: 60_000,
+ *   onExpiring: () => console.log('Token expires in a minute'),
+ *   onExpired: () => console.log('Token expired'),
+ * });
+ * ```
+ *
+ * @internal
+ */
+export const watchTokenExpiry = (
+    expiresAt: number,
+    { leadTime, onExpiring, onExpired }: TokenExpiryHandlers
+): (() => void) => {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let hasExpiringFired = false;
+    let hasExpiredFired = false;
+
+    const check = () => {
+        clearTimeout(timer);
+        if (hasExpiredFired) {
+            return;
+        }
+
+        const now = Date.now();
+        if (now >= expiresAt) {
+            hasExpiredFired = true;
+            onExpired();
+            return;
+        }
+        if (!hasExpiringFired && now >= expiresAt - leadTime) {
+            hasExpiringFired = true;
+            onExpiring();
+        }
+
+        const next = hasExpiringFired ? expiresAt : expiresAt - leadTime;
+        timer = setTimeout(check, Math.min(next - now, MAX_TIMEOUT));
+    };
+
+    const handleVisibilityChange = () => {
+        if (document.visibilityState === 'visible') {
+            check();
+        }
+    };
+
+    if (typeof document !== 'undefined') {
+        document.addEventListener('visibilitychange', handleVisibilityChange);
+    }
+    check();
+
+    return () => {
+        clearTimeout(timer);
+        if (typeof document !== 'undefined') {
+            document.removeEventListener('visibilitychange', handleVisibilityChange);
+        }
+    };
+};
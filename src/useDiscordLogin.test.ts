@@ -1,12 +1,22 @@
-import { beforeEach, describe, expect, it, mock } from 'bun:test';
-import type { CodeResponse, ErrorResponse, TokenResponse } from './DiscordLoginTypes';
+import { afterEach, beforeEach, describe, expect, it, mock, spyOn } from 'bun:test';
+import { act, cleanup, renderHook, waitFor } from '@testing-library/react';
+import { createElement, type ReactNode, StrictMode } from 'react';
+import { AUTH_SYNC_STORAGE_KEY } from './authSync.js';
+import { resetCallbackClaims } from './callbackCoordinator.js';
+import type { CodeResponse, DiscordScope, ErrorResponse, TokenResponse } from './DiscordLoginTypes.js';
+import { createMemoryLocation } from './location.js';
+import { RETURN_TO_STORAGE_KEY } from './returnTo.js';
+import { createSession, SESSION_STORAGE_KEY, saveSession } from './session.js';
+import { createMemoryStorage } from './storage.js';
 
 // Mock the utils functions
 const mockGenerateUrl = mock();
 const mockGetCallbackResponse = mock();
 const mockNormalizeDiscordConfig = mock();
-const mockShouldHandleCallback = mock(() => false);
+const mockShouldHandleCallback = mock((_url: string) => false);
 const mockFetchUser = mock();
+const mockFetchGuilds = mock();
+const mockFetchConnections = mock();
 
 // Mock history.replaceState
 const mockReplaceState = mock();
@@ -18,12 +28,15 @@ global.window = {
 } as unknown as Window & typeof globalThis;
 
 // Mock the utils module
-mock.module('./utils', () => ({
+mock.module('./utils.js', () => ({
     generateUrl: mockGenerateUrl,
     getCallbackResponse: mockGetCallbackResponse,
     normalizeDiscordConfig: mockNormalizeDiscordConfig,
     shouldHandleCallback: mockShouldHandleCallback,
     fetchUser: mockFetchUser,
+    fetchGuilds: mockFetchGuilds,
+    fetchGuildMember: mock(),
+    fetchConnections: mockFetchConnections,
 }));
 
 describe('useDiscordLogin hook improvements', () => {
@@ -56,7 +69,7 @@ describe('useDiscordLogin hook improvements', () => {
 
     it('should export all required types from index', async () => {
         // Test that all types are properly exported
-        const exports = await import('./index');
+        const exports = await import('./index.js');
 
         // Check that the hook is exported
         expect(exports.useDiscordLogin).toBeDefined();
@@ -71,6 +84,7 @@ describe('useDiscordLogin hook improvements', () => {
         const errorResponse: ErrorResponse = {
             error: 'access_denied',
             description: 'User denied access',
+            source: 'authorization',
         };
 
         mockShouldHandleCallback.mockReturnValue(true);
@@ -151,7 +165,7 @@ describe('useDiscordLogin hook improvements', () => {
 
     it('should verify cleanup functionality exists', async () => {
         // Test that the hook implementation includes cleanup logic
-        const useDiscordLogin = (await import('./useDiscordLogin')).default;
+        const useDiscordLogin = (await import('./useDiscordLogin.js')).default;
 
         // Verify the hook function exists and has the correct shape
         expect(typeof useDiscordLogin).toBe('function');
@@ -160,3 +174,826 @@ describe('useDiscordLogin hook improvements', () => {
         expect(useDiscordLogin.length).toBeGreaterThan(0);
     });
 });
+
+describe('useDiscordLogin rendered', () => {
+    const config = {
+        clientId: '123456789012345678',
+        redirectUri: 'http://localhost:3000/callback',
+        responseType: 'code' as const,
+        scopes: ['identify'] as DiscordScope[],
+        state: false,
+        pkce: false,
+        storage: createMemoryStorage(),
+    };
+    let previousWindow: typeof globalThis.window;
+
+    beforeEach(() => {
+        previousWindow = globalThis.window;
+        globalThis.window = document.defaultView as unknown as Window & typeof globalThis;
+        mockNormalizeDiscordConfig.mockReturnValue(config);
+        mockShouldHandleCallback.mockReturnValue(false);
+        mockGetCallbackResponse.mockReturnValue({ type: null });
+    });
+
+    afterEach(() => {
+        // Unmount while the DOM window is still installed
+        cleanup();
+        globalThis.window = previousWindow;
+        resetCallbackClaims();
+        mockShouldHandleCallback.mockReturnValue(false);
+    });
+
+    it('should start idle without results', async () => {
+        const { default: useDiscordLogin } = await import('./useDiscordLogin.js');
+        const { result } = renderHook(() => useDiscordLogin(config));
+
+        expect(result.current).toMatchObject({
+            status: 'idle',
+            isLoading: false,
+            user: null,
+            token: null,
+            code: null,
+            error: null,
+        });
+    });
+
+    it('should expose the code after a successful callback and reset to idle', async () => {
+        const { default: useDiscordLogin } = await import('./useDiscordLogin.js');
+        mockShouldHandleCallback.mockReturnValue(true);
+        mockGetCallbackResponse.mockReturnValue({ type: 'code', code: { code: 'abc' } });
+
+        const { result } = renderHook(() => useDiscordLogin(config));
+
+        await waitFor(() => expect(result.current.status).toBe('success'));
+        expect(result.current.code).toEqual({ code: 'abc' });
+        expect(result.current.error).toBeNull();
+
+        act(() => {
+            result.current.reset();
+        });
+
+        expect(result.current.status).toBe('idle');
+        expect(result.current.code).toBeNull();
+    });
+
+    it('should expose the error of a failed callback', async () => {
+        const { default: useDiscordLogin } = await import('./useDiscordLogin.js');
+        const onFailure = mock();
+        const error: ErrorResponse = { error: 'access_denied', description: '', source: 'authorization' };
+        mockShouldHandleCallback.mockReturnValue(true);
+        mockGetCallbackResponse.mockReturnValue({ type: 'error', error });
+
+        const { result } = renderHook(() => useDiscordLogin({ ...config, onFailure }));
+
+        await waitFor(() => expect(result.current.status).toBe('error'));
+        expect(result.current.error).toEqual(error);
+        expect(onFailure).toHaveBeenCalledWith(error);
+    });
+
+    it('should accept the callback of an earlier URL after building another one', async () => {
+        const { default: useDiscordLogin } = await import('./useDiscordLogin.js');
+        const onSuccess = mock();
+        const stateConfig = { ...config, state: true, storage: createMemoryStorage() };
+        mockNormalizeDiscordConfig.mockReturnValue(stateConfig);
+        const { result } = renderHook(() => useDiscordLogin({ ...stateConfig, onSuccess }));
+
+        result.current.buildUrl();
+        const [, { state }] = mockGenerateUrl.mock.calls[mockGenerateUrl.mock.calls.length - 1];
+        result.current.buildUrl();
+
+        mockShouldHandleCallback.mockReturnValue(true);
+        mockGetCallbackResponse.mockReturnValue({ type: 'code', state, code: { code: 'abc' } });
+        const { result: callback } = renderHook(() => useDiscordLogin({ ...stateConfig, onSuccess }));
+
+        await waitFor(() => expect(callback.current.status).toBe('success'));
+        expect(onSuccess).toHaveBeenCalledWith({ code: 'abc' });
+    });
+});
+
+describe('useDiscordLogin login', () => {
+    const storage = createMemoryStorage();
+    const config = {
+        clientId: '123456789012345678',
+        redirectUri: 'http://localhost:3000/callback',
+        responseType: 'code' as const,
+        scopes: ['identify'] as DiscordScope[],
+        state: false,
+        pkce: false,
+        storage,
+    };
+    let previousWindow: typeof globalThis.window;
+
+    beforeEach(() => {
+        previousWindow = globalThis.window;
+        globalThis.window = document.defaultView as unknown as Window & typeof globalThis;
+        storage.removeItem(RETURN_TO_STORAGE_KEY);
+        mockNormalizeDiscordConfig.mockReturnValue(config);
+        mockGenerateUrl.mockReturnValue('https://discord.com/oauth2/authorize?client_id=123456789012345678');
+        mockShouldHandleCallback.mockReturnValue(false);
+        mockGetCallbackResponse.mockReturnValue({ type: null });
+    });
+
+    afterEach(() => {
+        cleanup();
+        globalThis.window = previousWindow;
+        resetCallbackClaims();
+    });
+
+    it('should record the return target and redirect to Discord', async () => {
+        const { default: useDiscordLogin } = await import('./useDiscordLogin.js');
+        const location = createMemoryLocation('http://localhost:3000/guilds');
+        const assign = spyOn(location, 'assign');
+        const { result } = renderHook(() => useDiscordLogin({ ...config, location }));
+
+        act(() => {
+            result.current.login({ returnTo: '/settings?tab=profile' });
+        });
+
+        expect(storage.getItem(RETURN_TO_STORAGE_KEY)).toBe('/settings?tab=profile');
+        expect(assign).toHaveBeenCalledWith('https://discord.com/oauth2/authorize?client_id=123456789012345678');
+        expect(location.getUrl()).toBe('https://discord.com/oauth2/authorize?client_id=123456789012345678');
+        expect(result.current.status).toBe('redirecting');
+    });
+
+    it('should return to idle when the page is restored from the back/forward cache', async () => {
+        const { default: useDiscordLogin } = await import('./useDiscordLogin.js');
+        const location = createMemoryLocation('http://localhost:3000/guilds');
+        const { result } = renderHook(() => useDiscordLogin({ ...config, location }));
+        const dispatchPageShow = (persisted: boolean) =>
+            act(() => {
+                window.dispatchEvent(Object.assign(new window.Event('pageshow'), { persisted }));
+            });
+
+        act(() => {
+            result.current.login();
+        });
+        dispatchPageShow(false);
+        expect(result.current.status).toBe('redirecting');
+
+        dispatchPageShow(true);
+        expect(result.current.status).toBe('idle');
+        expect(result.current.isLoading).toBe(false);
+    });
+
+    it('should default to the current page and ignore return targets on other origins', async () => {
+        const { default: useDiscordLogin } = await import('./useDiscordLogin.js');
+        const warn = spyOn(console, 'warn').mockImplementation(() => {});
+        const location = createMemoryLocation('http://localhost:3000/guilds?page=2#top');
+        // Stay on the page so the second login resolves against it again
+        spyOn(location, 'assign').mockImplementation(() => {});
+        const { result } = renderHook(() => useDiscordLogin({ ...config, location }));
+
+        act(() => {
+            result.current.login();
+        });
+        expect(storage.getItem(RETURN_TO_STORAGE_KEY)).toBe('/guilds?page=2#top');
+
+        act(() => {
+            result.current.login({ returnTo: 'https://evil.example/phish' });
+        });
+        expect(storage.getItem(RETURN_TO_STORAGE_KEY)).toBe('/guilds?page=2#top');
+        expect(warn).toHaveBeenCalled();
+        warn.mockRestore();
+    });
+
+    it('should clean up the callback URL and navigate back to the return target', async () => {
+        const { default: useDiscordLogin } = await import('./useDiscordLogin.js');
+        const location = createMemoryLocation('http://localhost:3000/callback?code=abc&lang=en');
+        const replace = spyOn(location, 'replace');
+        storage.setItem(RETURN_TO_STORAGE_KEY, '/settings');
+        mockShouldHandleCallback.mockReturnValueOnce(true);
+        mockGetCallbackResponse.mockReturnValue({ type: 'code', code: { code: 'abc' } });
+
+        const { result } = renderHook(() => useDiscordLogin({ ...config, location }));
+
+        await waitFor(() => expect(result.current.status).toBe('success'));
+        expect(mockGetCallbackResponse).toHaveBeenCalledWith('http://localhost:3000/callback?code=abc&lang=en');
+        expect(replace.mock.calls).toEqual([['/callback?lang=en'], ['/settings']]);
+        expect(location.getUrl()).toBe('http://localhost:3000/settings');
+        expect(storage.getItem(RETURN_TO_STORAGE_KEY)).toBeNull();
+    });
+
+    it('should remove the bot authorization parameters from the callback URL', async () => {
+        const { default: useDiscordLogin } = await import('./useDiscordLogin.js');
+        const location = createMemoryLocation('http://localhost:3000/callback?code=abc&guild_id=123&permissions=8');
+        mockShouldHandleCallback.mockReturnValueOnce(true);
+        mockGetCallbackResponse.mockReturnValue({
+            type: 'code',
+            code: { code: 'abc', guild_id: '123', permissions: '8' },
+        });
+
+        const { result } = renderHook(() => useDiscordLogin({ ...config, location }));
+
+        await waitFor(() => expect(result.current.status).toBe('success'));
+        expect(result.current.code).toEqual({ code: 'abc', guild_id: '123', permissions: '8' });
+        expect(location.getUrl()).toBe('http://localhost:3000/callback');
+    });
+
+    it('should not navigate after a failed callback', async () => {
+        const { default: useDiscordLogin } = await import('./useDiscordLogin.js');
+        const location = createMemoryLocation('http://localhost:3000/callback?error=access_denied');
+        storage.setItem(RETURN_TO_STORAGE_KEY, '/settings');
+        mockShouldHandleCallback.mockReturnValueOnce(true);
+        mockGetCallbackResponse.mockReturnValue({
+            type: 'error',
+            error: { error: 'access_denied', description: '', source: 'authorization' },
+        });
+
+        const { result } = renderHook(() => useDiscordLogin({ ...config, location }));
+
+        await waitFor(() => expect(result.current.status).toBe('error'));
+        expect(location.getUrl()).toBe('http://localhost:3000/callback');
+        expect(storage.getItem(RETURN_TO_STORAGE_KEY)).toBeNull();
+    });
+
+    it('should settle the callback when onFailure throws', async () => {
+        const { default: useDiscordLogin } = await import('./useDiscordLogin.js');
+        const consoleError = spyOn(console, 'error').mockImplementation(() => {});
+        const onFailure = mock(() => {
+            throw new Error('onFailure failed');
+        });
+        const location = createMemoryLocation('http://localhost:3000/callback?error=access_denied');
+        mockShouldHandleCallback.mockReturnValueOnce(true);
+        mockGetCallbackResponse.mockReturnValue({
+            type: 'error',
+            error: { error: 'access_denied', description: '', source: 'authorization' },
+        });
+
+        const { result } = renderHook(() => useDiscordLogin({ ...config, location, onFailure }));
+
+        await waitFor(() => expect(result.current.error?.description).toBe('onFailure failed'));
+        expect(result.current.status).toBe('error');
+        expect(consoleError).toHaveBeenCalledWith('Discord login callback failed:', expect.any(Error));
+        consoleError.mockRestore();
+    });
+
+    it('should process callbacks reported by the location adapter', async () => {
+        const { default: useDiscordLogin } = await import('./useDiscordLogin.js');
+        const onSuccess = mock();
+        const location = createMemoryLocation('http://localhost:3000/');
+        renderHook(() => useDiscordLogin({ ...config, location, onSuccess }));
+
+        mockShouldHandleCallback.mockReturnValueOnce(true);
+        mockGetCallbackResponse.mockReturnValue({ type: 'code', code: { code: 'abc' } });
+        act(() => {
+            location.navigate('/callback?code=abc');
+        });
+
+        await waitFor(() => expect(onSuccess).toHaveBeenCalledWith({ code: 'abc' }));
+    });
+});
+
+describe('useDiscordLogin popup login', () => {
+    const config = {
+        clientId: '123456789012345678',
+        redirectUri: 'http://localhost:3000/callback',
+        responseType: 'code' as const,
+        scopes: ['identify'] as DiscordScope[],
+        state: false,
+        pkce: false,
+        storage: createMemoryStorage(),
+    };
+    let previousWindow: typeof globalThis.window;
+    let popup: { closed: boolean; close: ReturnType<typeof mock> };
+
+    const postFromPopup = (response: unknown) => {
+        const event = new window.Event('message');
+        Object.assign(event, {
+            data: { type: 'react-discord-login:callback', response },
+            origin: 'http://localhost:3000',
+            source: popup,
+        });
+        window.dispatchEvent(event);
+    };
+
+    beforeEach(() => {
+        previousWindow = globalThis.window;
+        globalThis.window = document.defaultView as unknown as Window & typeof globalThis;
+        mockNormalizeDiscordConfig.mockReturnValue(config);
+        mockGenerateUrl.mockReturnValue('https://discord.com/oauth2/authorize?client_id=123456789012345678');
+        mockShouldHandleCallback.mockReturnValue(false);
+        mockGetCallbackResponse.mockReturnValue({ type: null });
+        popup = {
+            closed: false,
+            close: mock(() => {
+                popup.closed = true;
+            }),
+        };
+        spyOn(window, 'open').mockImplementation(() => popup as unknown as Window);
+    });
+
+    afterEach(() => {
+        cleanup();
+        globalThis.window = previousWindow;
+        mock.restore();
+    });
+
+    it('should process the response posted by the popup', async () => {
+        const { default: useDiscordLogin } = await import('./useDiscordLogin.js');
+        const onSuccess = mock();
+        const { result } = renderHook(() => useDiscordLogin({ ...config, onSuccess }));
+
+        let pending: Promise<unknown> = Promise.resolve();
+        act(() => {
+            pending = result.current.loginWithPopup({ pollInterval: 5 });
+        });
+        expect(result.current.status).toBe('redirecting');
+
+        await act(async () => {
+            postFromPopup({ type: 'code', code: { code: 'popup-code' } });
+            await pending;
+        });
+
+        expect(await pending).toEqual({ type: 'code', code: { code: 'popup-code' } });
+        expect(result.current.status).toBe('success');
+        expect(result.current.code).toEqual({ code: 'popup-code' });
+        expect(onSuccess).toHaveBeenCalledWith({ code: 'popup-code' });
+        expect(popup.close).toHaveBeenCalled();
+    });
+
+    it('should close the popup and stop waiting when unmounted', async () => {
+        const { default: useDiscordLogin } = await import('./useDiscordLogin.js');
+        const onSuccess = mock();
+        const { result, unmount } = renderHook(() => useDiscordLogin({ ...config, onSuccess }));
+
+        let pending: Promise<unknown> = Promise.resolve();
+        act(() => {
+            pending = result.current.loginWithPopup();
+        });
+        unmount();
+
+        expect(await pending).toEqual({ type: null });
+        expect(popup.close).toHaveBeenCalled();
+        postFromPopup({ type: 'code', code: { code: 'late-code' } });
+        expect(onSuccess).not.toHaveBeenCalled();
+    });
+
+    it('should abandon the previous popup when a newer login starts', async () => {
+        const { default: useDiscordLogin } = await import('./useDiscordLogin.js');
+        const { result } = renderHook(() => useDiscordLogin(config));
+
+        let first: Promise<unknown> = Promise.resolve();
+        act(() => {
+            first = result.current.loginWithPopup();
+        });
+        const firstPopup = popup;
+        act(() => {
+            result.current.loginWithPopup();
+        });
+
+        expect(await first).toEqual({ type: null });
+        expect(firstPopup.close).toHaveBeenCalled();
+        expect(result.current.status).toBe('redirecting');
+    });
+});
+
+describe('useDiscordLogin callback coordination', () => {
+    const config = {
+        clientId: '123456789012345678',
+        redirectUri: 'http://localhost:3000/callback',
+        responseType: 'token' as const,
+        scopes: ['identify'] as DiscordScope[],
+        state: false,
+        pkce: false,
+        storage: createMemoryStorage(),
+    };
+    const token: TokenResponse = {
+        token_type: 'Bearer',
+        access_token: 'shared-token',
+        expires_in: 3600,
+        scope: ['identify'],
+    };
+    const user = {
+        id: '123',
+        username: 'testuser',
+        discriminator: '0',
+        global_name: 'Test User',
+        avatar: null,
+        banner: null,
+        accent_color: null,
+        locale: 'en-US',
+        verified: true,
+        email: null,
+    };
+    let previousWindow: typeof globalThis.window;
+
+    beforeEach(() => {
+        previousWindow = globalThis.window;
+        globalThis.window = document.defaultView as unknown as Window & typeof globalThis;
+        mockNormalizeDiscordConfig.mockReturnValue(config);
+        mockFetchUser.mockClear();
+        mockFetchUser.mockResolvedValue(user);
+        mockShouldHandleCallback.mockReturnValue(true);
+        mockGetCallbackResponse.mockReturnValue({ type: 'token', token });
+    });
+
+    afterEach(() => {
+        cleanup();
+        globalThis.window = previousWindow;
+        resetCallbackClaims();
+        mockShouldHandleCallback.mockReturnValue(false);
+    });
+
+    it('should process the callback once under StrictMode', async () => {
+        const { default: useDiscordLogin } = await import('./useDiscordLogin.js');
+        const onSuccess = mock();
+        const location = createMemoryLocation('http://localhost:3000/callback#access_token=shared-token');
+        const wrapper = ({ children }: { children: ReactNode }) => createElement(StrictMode, null, children);
+
+        const { result } = renderHook(() => useDiscordLogin({ ...config, location, onSuccess }), { wrapper });
+
+        await waitFor(() => expect(result.current.status).toBe('success'));
+        expect(result.current.user).toEqual(user);
+        expect(result.current.isAuthenticated).toBe(true);
+        expect(mockFetchUser).toHaveBeenCalledTimes(1);
+        expect(onSuccess).toHaveBeenCalledTimes(1);
+        expect(location.getUrl()).toBe('http://localhost:3000/callback');
+    });
+
+    it('should share the callback result between concurrent hooks', async () => {
+        const { default: useDiscordLogin } = await import('./useDiscordLogin.js');
+        const firstSuccess = mock();
+        const secondSuccess = mock();
+        const location = createMemoryLocation('http://localhost:3000/callback#access_token=shared-token');
+
+        const { result } = renderHook(() => [
+            useDiscordLogin({ ...config, location, onSuccess: firstSuccess }),
+            useDiscordLogin({ ...config, location, onSuccess: secondSuccess }),
+        ]);
+
+        await waitFor(() => expect(result.current.map(({ status }) => status)).toEqual(['success', 'success']));
+        expect(result.current[1].token).toEqual(result.current[0].token);
+        expect(result.current[1].isAuthenticated).toBe(true);
+        expect(mockFetchUser).toHaveBeenCalledTimes(1);
+        expect(firstSuccess.mock.calls.length + secondSuccess.mock.calls.length).toBe(1);
+    });
+
+    it('should abort the callback once every hook waiting for it unmounted', async () => {
+        const { default: useDiscordLogin } = await import('./useDiscordLogin.js');
+        const onSuccess = mock();
+        let signal: AbortSignal | undefined;
+        mockFetchUser.mockImplementation((_token: TokenResponse, options: { signal: AbortSignal }) => {
+            signal = options.signal;
+            return new Promise(() => {});
+        });
+        const location = createMemoryLocation('http://localhost:3000/callback#access_token=shared-token');
+
+        const { unmount } = renderHook(() => useDiscordLogin({ ...config, location, onSuccess }));
+        await waitFor(() => expect(signal).toBeDefined());
+        unmount();
+
+        await waitFor(() => expect(signal?.aborted).toBe(true));
+        expect(onSuccess).not.toHaveBeenCalled();
+    });
+
+    it('should abort the user request on unmount without reporting a failure', async () => {
+        const { default: useDiscordLogin } = await import('./useDiscordLogin.js');
+        const onFailure = mock();
+        let signal: AbortSignal | undefined;
+        mockFetchUser.mockImplementation(
+            (_token: TokenResponse, options: { signal: AbortSignal }) =>
+                new Promise((_resolve, reject) => {
+                    signal = options.signal;
+                    signal.addEventListener('abort', () => reject(signal?.reason));
+                })
+        );
+        const location = createMemoryLocation('http://localhost:3000/callback#access_token=shared-token');
+
+        const { unmount } = renderHook(() => useDiscordLogin({ ...config, location, onFailure }));
+        await waitFor(() => expect(signal).toBeDefined());
+        unmount();
+
+        await waitFor(() => expect(signal?.aborted).toBe(true));
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        expect(onFailure).not.toHaveBeenCalled();
+    });
+
+    it('should abort the previous callback when a newer one starts', async () => {
+        const { default: useDiscordLogin } = await import('./useDiscordLogin.js');
+        const onSuccess = mock();
+        const onFailure = mock();
+        const signals: AbortSignal[] = [];
+        mockFetchUser.mockImplementation((_token: TokenResponse, options: { signal: AbortSignal }) => {
+            signals.push(options.signal);
+            // The first request hangs until it is aborted
+            return signals.length === 1
+                ? new Promise((_resolve, reject) =>
+                      options.signal.addEventListener('abort', () => reject(options.signal.reason))
+                  )
+                : Promise.resolve(user);
+        });
+        mockShouldHandleCallback.mockImplementation((url: string) => url.includes('access_token'));
+        mockGetCallbackResponse.mockImplementation((url: string) => ({
+            type: 'token',
+            token: { ...token, access_token: new URL(url).hash.replace('#access_token=', '') },
+        }));
+        const location = createMemoryLocation('http://localhost:3000/callback#access_token=first-token');
+
+        const { result } = renderHook(() => useDiscordLogin({ ...config, location, onSuccess, onFailure }));
+        await waitFor(() => expect(signals).toHaveLength(1));
+        act(() => {
+            location.navigate('/callback#access_token=second-token');
+        });
+
+        await waitFor(() => expect(result.current.status).toBe('success'));
+        expect(signals[0].aborted).toBe(true);
+        expect(result.current.token?.access_token).toBe('second-token');
+        expect(onSuccess).toHaveBeenCalledTimes(1);
+        expect(onFailure).not.toHaveBeenCalled();
+    });
+});
+
+describe('useDiscordLogin token expiry', () => {
+    const config = {
+        clientId: '123456789012345678',
+        redirectUri: 'http://localhost:3000/callback',
+        responseType: 'token' as const,
+        scopes: ['identify'] as DiscordScope[],
+        state: false,
+        pkce: false,
+        storage: createMemoryStorage(),
+    };
+    const token: TokenResponse = {
+        token_type: 'Bearer',
+        access_token: 'old-token',
+        expires_in: 3600,
+        scope: ['identify'],
+    };
+    let previousWindow: typeof globalThis.window;
+
+    beforeEach(() => {
+        previousWindow = globalThis.window;
+        globalThis.window = document.defaultView as unknown as Window & typeof globalThis;
+        mockNormalizeDiscordConfig.mockReturnValue(config);
+        mockShouldHandleCallback.mockReturnValue(false);
+        mockGetCallbackResponse.mockReturnValue({ type: null });
+    });
+
+    afterEach(() => {
+        cleanup();
+        globalThis.window = previousWindow;
+    });
+
+    it('should report an expiring token and replace the session with the refreshed one', async () => {
+        const { default: useDiscordLogin } = await import('./useDiscordLogin.js');
+        const sessionStorage = createMemoryStorage();
+        saveSession(sessionStorage, SESSION_STORAGE_KEY, createSession(token));
+        const onTokenExpiring = mock();
+        const refresh = mock(() => ({ ...token, access_token: 'new-token', expires_in: 604800 }));
+
+        const { result } = renderHook(() =>
+            useDiscordLogin({
+                ...config,
+                session: { storage: sessionStorage },
+                onTokenExpiring,
+                // The token expires within the lead time, so it is reported right away
+                tokenExpiry: { leadTime: 3_600_000, refresh },
+            })
+        );
+
+        const { getSession } = result.current;
+        await waitFor(() => expect(result.current.session?.token.access_token).toBe('new-token'));
+        expect(result.current.getSession).toBe(getSession);
+        expect(getSession()?.token.access_token).toBe('new-token');
+        expect(onTokenExpiring.mock.calls[0][0].token.access_token).toBe('old-token');
+        expect(refresh).toHaveBeenCalledTimes(1);
+        expect(result.current.isAuthenticated).toBe(true);
+    });
+
+    it('should refresh the token in a single synchronized instance', async () => {
+        const { default: useDiscordLogin } = await import('./useDiscordLogin.js');
+        // Two tabs holding the same session
+        const expiringSession = createSession(token);
+        const firstStorage = createMemoryStorage();
+        const secondStorage = createMemoryStorage();
+        saveSession(firstStorage, SESSION_STORAGE_KEY, expiringSession);
+        saveSession(secondStorage, SESSION_STORAGE_KEY, expiringSession);
+        const refresh = mock(async () => ({ ...token, access_token: 'new-token', expires_in: 604800 }));
+        const tokenExpiry = { leadTime: 3_600_000, refresh };
+
+        const { result } = renderHook(() => [
+            useDiscordLogin({ ...config, session: { storage: firstStorage }, tokenExpiry }),
+            useDiscordLogin({ ...config, session: { storage: secondStorage }, tokenExpiry }),
+        ]);
+
+        await waitFor(() =>
+            expect(result.current.map((hook) => hook.session?.token.access_token)).toEqual(['new-token', 'new-token'])
+        );
+        expect(refresh).toHaveBeenCalledTimes(1);
+    });
+
+    it('should clear the expired session and log in again when configured', async () => {
+        const { default: useDiscordLogin } = await import('./useDiscordLogin.js');
+        mockGenerateUrl.mockReturnValue('https://discord.com/oauth2/authorize?client_id=123456789012345678');
+        const location = createMemoryLocation('http://localhost:3000/guilds');
+        const assign = spyOn(location, 'assign');
+        const sessionStorage = createMemoryStorage();
+        // Expires in 50ms
+        saveSession(sessionStorage, SESSION_STORAGE_KEY, createSession({ ...token, expires_in: 1 }, Date.now() - 950));
+        const onTokenExpired = mock();
+
+        const { result } = renderHook(() =>
+            useDiscordLogin({
+                ...config,
+                session: { storage: sessionStorage },
+                onTokenExpired,
+                tokenExpiry: { leadTime: 0, relogin: true },
+                location,
+            })
+        );
+        expect(result.current.isAuthenticated).toBe(true);
+
+        await waitFor(() => expect(onTokenExpired).toHaveBeenCalledTimes(1));
+        expect(result.current.isAuthenticated).toBe(false);
+        expect(sessionStorage.getItem(SESSION_STORAGE_KEY)).toBeNull();
+        await waitFor(() =>
+            expect(assign).toHaveBeenCalledWith('https://discord.com/oauth2/authorize?client_id=123456789012345678')
+        );
+    });
+
+    it('should log in again from a single synchronized instance', async () => {
+        const { default: useDiscordLogin } = await import('./useDiscordLogin.js');
+        const location = createMemoryLocation('http://localhost:3000/guilds');
+        const assign = spyOn(location, 'assign');
+        const sessionStorage = createMemoryStorage();
+        saveSession(sessionStorage, SESSION_STORAGE_KEY, createSession({ ...token, expires_in: 1 }, Date.now() - 950));
+        const onTokenExpired = mock();
+        const params = {
+            ...config,
+            session: { storage: sessionStorage },
+            onTokenExpired,
+            tokenExpiry: { leadTime: 0, relogin: true },
+            location,
+        };
+
+        renderHook(() => [useDiscordLogin(params), useDiscordLogin(params)]);
+
+        await waitFor(() => expect(onTokenExpired).toHaveBeenCalledTimes(2));
+        await waitFor(() => expect(assign).toHaveBeenCalledTimes(1));
+        // The other instance does not redirect as well
+        await act(() => new Promise((resolve) => setTimeout(resolve, 100)));
+        expect(assign).toHaveBeenCalledTimes(1);
+    });
+});
+
+describe('useDiscordLogin cross-tab sync', () => {
+    const config = {
+        clientId: '123456789012345678',
+        redirectUri: 'http://localhost:3000/callback',
+        responseType: 'token' as const,
+        scopes: ['identify'] as DiscordScope[],
+        state: false,
+        pkce: false,
+        storage: createMemoryStorage(),
+    };
+    const token: TokenResponse = {
+        token_type: 'Bearer',
+        access_token: 'synced-token',
+        expires_in: 3600,
+        scope: ['identify'],
+    };
+    let previousWindow: typeof globalThis.window;
+
+    beforeEach(() => {
+        previousWindow = globalThis.window;
+        globalThis.window = document.defaultView as unknown as Window & typeof globalThis;
+        mockNormalizeDiscordConfig.mockReturnValue(config);
+        mockFetchUser.mockResolvedValue(null);
+        // Only the tab on the callback page handles a callback
+        mockShouldHandleCallback.mockImplementation((url: string) => url.includes('#access_token'));
+        mockGetCallbackResponse.mockImplementation((url: string) =>
+            url.includes('#access_token') ? { type: 'token', token } : { type: null }
+        );
+    });
+
+    afterEach(() => {
+        cleanup();
+        globalThis.window = previousWindow;
+        resetCallbackClaims();
+        mockShouldHandleCallback.mockReset();
+        mockShouldHandleCallback.mockReturnValue(false);
+        mockGetCallbackResponse.mockReset();
+        mockGetCallbackResponse.mockReturnValue({ type: null });
+    });
+
+    // Each tab has its own session storage, like two browser tabs with the in-memory store
+    const renderTab = async (url: string, { sync, loggedIn = false }: { sync?: boolean; loggedIn?: boolean } = {}) => {
+        const { default: useDiscordLogin } = await import('./useDiscordLogin.js');
+        const sessionStorage = createMemoryStorage();
+        const location = createMemoryLocation(url);
+        if (loggedIn) {
+            saveSession(sessionStorage, SESSION_STORAGE_KEY, createSession(token));
+        }
+        const { result } = renderHook(() =>
+            useDiscordLogin({ ...config, session: { storage: sessionStorage }, location, sync })
+        );
+        return { result, sessionStorage };
+    };
+
+    it('should log in the other tab when a tab completes a login', async () => {
+        const other = await renderTab('http://localhost:3000/guilds');
+        expect(other.result.current.isAuthenticated).toBe(false);
+
+        const callback = await renderTab('http://localhost:3000/callback#access_token=synced-token');
+
+        await waitFor(() => expect(callback.result.current.isAuthenticated).toBe(true));
+        await waitFor(() => expect(other.result.current.isAuthenticated).toBe(true));
+        expect(other.result.current.session?.token.access_token).toBe('synced-token');
+        expect(other.sessionStorage.getItem(SESSION_STORAGE_KEY)).not.toBeNull();
+    });
+
+    it('should log out the other tab when a tab logs out', async () => {
+        const first = await renderTab('http://localhost:3000/guilds', { loggedIn: true });
+        const second = await renderTab('http://localhost:3000/guilds', { loggedIn: true });
+        expect(second.result.current.isAuthenticated).toBe(true);
+
+        act(() => {
+            first.result.current.logout();
+        });
+        expect(first.result.current.isAuthenticated).toBe(false);
+
+        await waitFor(() => expect(second.sessionStorage.getItem(SESSION_STORAGE_KEY)).toBeNull());
+        expect(second.result.current.isAuthenticated).toBe(false);
+    });
+
+    it('should log out the other hooks of the same tab without BroadcastChannel', async () => {
+        const originalBroadcastChannel = globalThis.BroadcastChannel;
+        // Storage events only reach the other tabs
+        globalThis.BroadcastChannel = undefined as unknown as typeof BroadcastChannel;
+        try {
+            const first = await renderTab('http://localhost:3000/guilds', { loggedIn: true });
+            const second = await renderTab('http://localhost:3000/guilds', { loggedIn: true });
+
+            act(() => {
+                first.result.current.logout();
+            });
+
+            await waitFor(() => expect(second.result.current.isAuthenticated).toBe(false));
+            expect(second.sessionStorage.getItem(SESSION_STORAGE_KEY)).toBeNull();
+        } finally {
+            globalThis.BroadcastChannel = originalBroadcastChannel;
+        }
+    });
+
+    it('should re-read the stored session on storage events, which carry no token', async () => {
+        const originalBroadcastChannel = globalThis.BroadcastChannel;
+        globalThis.BroadcastChannel = undefined as unknown as typeof BroadcastChannel;
+        try {
+            const tab = await renderTab('http://localhost:3000/guilds');
+            const dispatchLoginEvent = () =>
+                act(() => {
+                    const newValue = JSON.stringify({ type: 'login', key: SESSION_STORAGE_KEY, source: 'other-tab' });
+                    window.dispatchEvent(
+                        Object.assign(new window.Event('storage'), { key: AUTH_SYNC_STORAGE_KEY, newValue })
+                    );
+                });
+
+            // The session of the other tab is not in a storage shared with this one
+            dispatchLoginEvent();
+            expect(tab.result.current.isAuthenticated).toBe(false);
+
+            saveSession(tab.sessionStorage, SESSION_STORAGE_KEY, createSession(token));
+            dispatchLoginEvent();
+            expect(tab.result.current.session?.token.access_token).toBe(token.access_token);
+        } finally {
+            globalThis.BroadcastChannel = originalBroadcastChannel;
+        }
+    });
+
+    it('should clear the user and token of the last login on logout', async () => {
+        const callback = await renderTab('http://localhost:3000/callback#access_token=synced-token');
+        await waitFor(() => expect(callback.result.current.status).toBe('success'));
+        expect(callback.result.current.token?.access_token).toBe('synced-token');
+
+        act(() => {
+            callback.result.current.logout();
+        });
+
+        expect(callback.result.current).toMatchObject({ status: 'idle', user: null, token: null });
+        expect(callback.result.current.isAuthenticated).toBe(false);
+    });
+
+    it('should clear the login result when another tab logs out', async () => {
+        const callback = await renderTab('http://localhost:3000/callback#access_token=synced-token');
+        await waitFor(() => expect(callback.result.current.status).toBe('success'));
+        const other = await renderTab('http://localhost:3000/guilds', { loggedIn: true });
+
+        act(() => {
+            other.result.current.logout();
+        });
+
+        await waitFor(() => expect(callback.result.current.token).toBeNull());
+        expect(callback.result.current).toMatchObject({ status: 'idle', user: null, isAuthenticated: false });
+    });
+
+    it('should not synchronize when sync is false', async () => {
+        const other = await renderTab('http://localhost:3000/guilds', { sync: false });
+        const callback = await renderTab('http://localhost:3000/callback#access_token=synced-token');
+
+        await waitFor(() => expect(callback.result.current.isAuthenticated).toBe(true));
+        // Leave time for the broadcast to be delivered
+        await new Promise((resolve) => setTimeout(resolve, 20));
+        expect(other.result.current.isAuthenticated).toBe(false);
+        expect(other.sessionStorage.getItem(SESSION_STORAGE_KEY)).toBeNull();
+    });
+});
@@ -1,7 +1,74 @@
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { createAuthSyncSource, publishAuthEvent, subscribeToAuthEvents } from './authSync.js';
+import { type CallbackSubscription, claimCallback, getCallbackKey } from './callbackCoordinator.js';
+import { stripOAuthParams } from './callbackUrl.js';
+import type {
+    CallbackResponse,
+    DiscordLoginState,
+    DiscordSession,
+    LoginOptions,
+    PopupOptions,
+    UseDiscordLogin,
+} from './DiscordLoginTypes.js';
+import { isAbortError, toErrorResponse } from './errors.js';
+import { claimExpiryAction } from './expiryClaim.js';
+import { browserLocation } from './location.js';
+import { attachCodeVerifier, createPkceChallenge } from './pkce.js';
+import { openLoginPopup, postCallbackToOpener } from './popup.js';
+import { consumeReturnTo, resolveReturnTo, saveReturnTo } from './returnTo.js';
+import {
+    clearSession,
+    createSession,
+    isSessionExpired,
+    loadSession,
+    SESSION_STORAGE_KEY,
+    saveSession,
+} from './session.js';
+import { createState, verifyCallbackState } from './state.js';
+import { getDefaultStorage, resolveStorage } from './storage.js';
+import { DEFAULT_EXPIRY_LEAD_TIME, watchTokenExpiry } from './tokenExpiry.js';
+import {
+    fetchConnections,
+    fetchGuilds,
+    fetchUser,
+    generateUrl,
+    getCallbackResponse,
+    normalizeDiscordConfig,
+    shouldHandleCallback,
+} from './utils.js';
 
-import type { UseDiscordLogin } from './DiscordLoginTypes';
-import { fetchUser, generateUrl, getCallbackResponse, normalizeDiscordConfig, shouldHandleCallback } from './utils';
+const IDLE_STATE: DiscordLoginState = { status: 'idle', user: null, token: null, code: null, error: null };
+
+/**
+ * Maps a processed callback response to the login state it results in.
+ *
+ * @internal
+ */
+const toLoginState = (response: CallbackResponse): DiscordLoginState => {
+    if (response.error) {
+        return { ...IDLE_STATE, status: 'error', error: response.error };
+    }
+    if (response.code) {
+        return { ...IDLE_STATE, status: 'success', code: response.code };
+    }
+    if (response.token) {
+        return { ...IDLE_STATE, status: 'success', user: response.token.user ?? null, token: response.token };
+    }
+    return IDLE_STATE;
+};
+
+/**
+ * Parses an absolute URL, returning null for empty or invalid URLs (e.g. during SSR).
+ *
+ * @internal
+ */
+const parseUrl = (url: string): URL | null => {
+    try {
+        return url ? new URL(url) : null;
+    } catch {
+        return null;
+    }
+};
 
 /**
  * React hook for Discord OAuth2 authentication flow.
@@ -42,174 +109,611 @@ import { fetchUser, generateUrl, getCallbackResponse, normalizeDiscordConfig, sh
  * @param params.redirectUri - OAuth2 redirect URI (defaults to current origin)
  * @param params.responseType - OAuth2 response type: 'code' or 'token' (defaults to 'code')
  * @param params.scopes - Discord OAuth2 scopes array (defaults to ['identify'])
+ * @param params.state - Generate and verify the OAuth2 state parameter (defaults to true)
+ * @param params.storage - Storage for per-login values such as the state (defaults to sessionStorage)
+ * @param params.pkce - Use PKCE with the 'code' response type (defaults to false)
+ * @param params.prompt - 'consent' or 'none' authorization screen behavior
+ * @param params.permissions - Bot permissions bitfield for the 'bot' scope
+ * @param params.guildId - Guild to pre-select for bot installs
+ * @param params.disableGuildSelect - Prevent changing the pre-selected guild
+ * @param params.integrationType - 0 for guild install, 1 for user install
+ * @param params.endpoints - Authorization URL, API base URL and API version overrides (defaults to discord.com)
+ * @param params.session - Token session persistence options, or false to disable (defaults to in-memory)
+ * @param params.autoFetch - Also fetch guilds/connections after a token login when their scopes were granted
+ * @param params.location - Location adapter used to read and replace the URL and to redirect to Discord (defaults to window.location/history)
  * @param params.onSuccess - Callback for successful OAuth2 completion
  * @param params.onFailure - Callback for OAuth2 errors
+ * @param params.onTokenExpiring - Callback fired `tokenExpiry.leadTime` before the session's access token expires
+ * @param params.onTokenExpired - Callback fired when the session's access token expired
+ * @param params.tokenExpiry - Lead time (defaults to 60000 ms), `refresh` callback and `relogin` flag
+ * @param params.sync - Synchronize logins, logouts and token refreshes with other tabs (defaults to true)
  *
  * @returns Hook return object
  * @returns returns.buildUrl - Function to generate Discord OAuth2 authorization URL
- * @returns returns.isLoading - Boolean indicating if OAuth2 callback is being processed
+ * @returns returns.login - Function redirecting to Discord and returning to the current (or given) page afterwards
+ * @returns returns.loginWithPopup - Function that runs the OAuth2 flow in a popup window instead of a redirect
+ * @returns returns.status - 'idle', 'redirecting', 'processing', 'success' or 'error'
+ * @returns returns.user - User of the last token flow login, or null
+ * @returns returns.token - Token response of the last token flow login, or null
+ * @returns returns.code - Code response of the last code flow login, or null
+ * @returns returns.error - Error of the last failed login, or null
+ * @returns returns.reset - Function returning to 'idle' and clearing the last result
+ * @returns returns.isLoading - Boolean indicating if a login is in progress
+ * @returns returns.session - Current token session, or null; re-renders on logins, logouts and refreshes
+ * @returns returns.getSession - Function reading the stored token session, or null
+ * @returns returns.isAuthenticated - Boolean indicating if a non-expired token session exists
+ * @returns returns.logout - Function clearing the token session and the result of the last login
  *
  * @remarks
  * This hook automatically:
  * - Detects OAuth2 callbacks in the current URL (query params or hash fragments)
- * - Processes callbacks on mount and URL changes (hashchange/popstate events)
- * - Fetches user data for token flow responses
+ * - Processes callbacks on mount and URL changes reported by the location adapter (hashchange/popstate by default)
+ * - Verifies the OAuth2 state of callbacks and rejects mismatches with an 'invalid_state' error
+ * - Returns the PKCE code verifier with code responses when `pkce` is enabled
+ * - Fetches user data for token flow responses and persists them as a session
+ * - Posts the callback result back to the opener when running inside a `loginWithPopup` window
  * - Cleans OAuth2 parameters from URL while preserving navigation state
+ * - Navigates back to the page `login()` was called from (or its `returnTo`) after a successful callback
+ * - Processes each callback once per page load, even with several hook instances or React StrictMode:
+ *   the first instance to see it calls its `onSuccess`/`onFailure`, the others only share the resulting state
+ * - Aborts in-flight API requests once no mounted instance waits for them anymore, or when a newer
+ *   callback starts; cancelled work resolves silently (`{ type: null }`) without calling `onSuccess` or `onFailure`
+ * - Tracks the expiry of the token session, re-checking it when the page becomes visible after a tab sleep:
+ *   fires `onTokenExpiring` and runs `tokenExpiry.refresh` before it, then clears the session, fires
+ *   `onTokenExpired` and optionally calls `login()` once it expired. With `sync`, a single instance across
+ *   this page and the other tabs runs the refresh (refresh tokens are single-use) or the new login
+ * - Broadcasts token logins, refreshes and logouts to other tabs over BroadcastChannel (or `storage` events
+ *   where it is unavailable) and applies theirs to its own session, unless `sync` is false
  * - Prevents memory leaks with proper cleanup and mount tracking
  * - Works in SSR environments with safe window/history access
  *
  * @since 2.1.0
  */
-const useDiscordLogin: UseDiscordLogin = ({ onSuccess, onFailure, clientId, redirectUri, responseType, scopes }) => {
-    const [isLoading, setLoading] = useState<boolean>(false);
+const useDiscordLogin: UseDiscordLogin = ({
+    onSuccess,
+    onFailure,
+    clientId,
+    redirectUri,
+    responseType,
+    scopes,
+    state,
+    storage,
+    pkce,
+    prompt,
+    permissions,
+    guildId,
+    disableGuildSelect,
+    integrationType,
+    endpoints,
+    session = true,
+    autoFetch = false,
+    location = browserLocation,
+    onTokenExpiring,
+    onTokenExpired,
+    tokenExpiry,
+    sync = true,
+}) => {
+    const [loginState, setLoginState] = useState<DiscordLoginState>(IDLE_STATE);
     const isMountedRef = useRef<boolean>(true);
+    // Aborts the popup login in flight when a newer one starts or the component unmounts
+    const abortControllerRef = useRef<AbortController | null>(null);
+    // Callback claimed or joined by this instance, released when a newer one starts or the component unmounts
+    const subscriptionRef = useRef<CallbackSubscription | null>(null);
     const discordConfig = useMemo(
-        () => normalizeDiscordConfig({ clientId, redirectUri, responseType, scopes }),
-        [clientId, redirectUri, responseType, scopes]
+        () =>
+            normalizeDiscordConfig({
+                clientId,
+                redirectUri,
+                responseType,
+                scopes,
+                state,
+                storage,
+                pkce,
+                prompt,
+                permissions,
+                guildId,
+                disableGuildSelect,
+                integrationType,
+                endpoints,
+            }),
+        [
+            clientId,
+            redirectUri,
+            responseType,
+            scopes,
+            state,
+            storage,
+            pkce,
+            prompt,
+            permissions,
+            guildId,
+            disableGuildSelect,
+            integrationType,
+            endpoints,
+        ]
+    );
+    const loginStorage = useMemo(() => discordConfig.storage ?? getDefaultStorage(), [discordConfig]);
+
+    const sessionEnabled = session !== false;
+    const sessionStorageOption = typeof session === 'object' ? session.storage : undefined;
+    const sessionKey = (typeof session === 'object' && session.key) || SESSION_STORAGE_KEY;
+    const sessionStore = useMemo(() => resolveStorage(sessionStorageOption ?? 'memory'), [sessionStorageOption]);
+    const [currentSession, setCurrentSession] = useState<DiscordSession | null>(() =>
+        sessionEnabled ? loadSession(sessionStore, sessionKey) : null
     );
 
-    const handleCallback = useCallback(async () => {
-        let type: null | 'error' | 'token' | 'code' = null;
-        let error: ReturnType<typeof getCallbackResponse>['error'];
-        let token: ReturnType<typeof getCallbackResponse>['token'];
-        let code: ReturnType<typeof getCallbackResponse>['code'];
-
-        try {
-            const response = getCallbackResponse();
-            type = response.type;
-            error = response.error;
-            token = response.token;
-            code = response.code;
-
-            if (type !== null && isMountedRef.current) {
-                setLoading(true);
-                try {
-                    if (typeof window !== 'undefined' && typeof history !== 'undefined') {
-                        // OAuth parameters to remove
-                        const oauthParams = [
-                            'code',
-                            'state',
-                            'error',
-                            'error_description',
-                            'access_token',
-                            'token_type',
-                            'expires_in',
-                            'scope',
-                        ];
-
-                        // Preserve current pathname
-                        const currentPathname = window.location.pathname;
-
-                        // Clean up search params
-                        const searchParams = new URLSearchParams(window.location.search);
-                        for (const param of oauthParams) {
-                            searchParams.delete(param);
+    useEffect(() => {
+        setCurrentSession(sessionEnabled ? loadSession(sessionStore, sessionKey) : null);
+    }, [sessionEnabled, sessionStore, sessionKey]);
+
+    const syncEnabled = sessionEnabled && sync;
+    // Identifies the events published by this instance, which it must not apply again
+    const [syncSource] = useState<string>(createAuthSyncSource);
+
+    const startOperation = useCallback((): AbortController => {
+        abortControllerRef.current?.abort();
+        const controller = new AbortController();
+        abortControllerRef.current = controller;
+        return controller;
+    }, []);
+
+    const updateLoginState = useCallback((signal: AbortSignal, nextState: DiscordLoginState) => {
+        // Superseded or unmounted operations must not overwrite the state of the current one
+        if (!signal.aborted && isMountedRef.current) {
+            setLoginState(nextState);
+        }
+    }, []);
+
+    const finishOperation = useCallback((controller: AbortController) => {
+        if (abortControllerRef.current !== controller) {
+            // Superseded: the newer operation owns the login state
+            return;
+        }
+        abortControllerRef.current = null;
+        if (isMountedRef.current) {
+            // Operations that ended without a result (e.g. a thrown error) must not stay in progress
+            setLoginState((current) =>
+                current.status === 'redirecting' || current.status === 'processing' ? IDLE_STATE : current
+            );
+        }
+    }, []);
+
+    const processResponse = useCallback(
+        async (callbackResponse: CallbackResponse, signal: AbortSignal): Promise<CallbackResponse> => {
+            if (signal.aborted) {
+                return { type: null };
+            }
+            const verifiedResponse = discordConfig.state
+                ? verifyCallbackState(callbackResponse, loginStorage)
+                : callbackResponse;
+            const response = discordConfig.pkce ? attachCodeVerifier(verifiedResponse, loginStorage) : verifiedResponse;
+
+            try {
+                if (response.error) {
+                    updateLoginState(signal, { ...IDLE_STATE, status: 'error', error: response.error });
+                    if (onFailure && isMountedRef.current) {
+                        await onFailure(response.error);
+                    }
+                    return response;
+                }
+
+                if (response.code) {
+                    updateLoginState(signal, { ...IDLE_STATE, status: 'success', code: response.code });
+                    if (onSuccess && isMountedRef.current) {
+                        await onSuccess(response.code);
+                    }
+                    return response;
+                }
+
+                if (response.token) {
+                    const requestOptions = { signal, endpoints: discordConfig.endpoints };
+                    const [user, guilds, connections] = await Promise.all([
+                        fetchUser(response.token, requestOptions),
+                        autoFetch && response.token.scope.includes('guilds')
+                            ? fetchGuilds(response.token, requestOptions)
+                            : undefined,
+                        autoFetch && response.token.scope.includes('connections')
+                            ? fetchConnections(response.token, requestOptions)
+                            : undefined,
+                    ]);
+                    if (signal.aborted) {
+                        return { type: null };
+                    }
+                    const token = {
+                        ...response.token,
+                        user,
+                        ...(guilds ? { guilds } : {}),
+                        ...(connections ? { connections } : {}),
+                    };
+                    if (sessionEnabled) {
+                        const newSession = createSession(token);
+                        saveSession(sessionStore, sessionKey, newSession);
+                        if (syncEnabled) {
+                            publishAuthEvent({
+                                type: 'login',
+                                key: sessionKey,
+                                source: syncSource,
+                                session: newSession,
+                            });
                         }
-                        const sanitizedSearch = searchParams.toString();
-
-                        // Clean up hash params (Discord OAuth can use hash fragments)
-                        let sanitizedHash = '';
-                        if (window.location.hash) {
-                            const hashContent = window.location.hash.substring(1); // Remove leading #
-                            const hashParams = new URLSearchParams(hashContent);
-                            for (const param of oauthParams) {
-                                hashParams.delete(param);
-                            }
-                            const cleanHashParams = hashParams.toString();
-                            sanitizedHash = cleanHashParams ? `#${cleanHashParams}` : '';
+                        if (isMountedRef.current) {
+                            setCurrentSession(newSession);
                         }
+                    }
+                    updateLoginState(signal, { ...IDLE_STATE, status: 'success', user, token });
+                    if (onSuccess && isMountedRef.current) {
+                        await onSuccess(token);
+                    }
+                    return { type: 'token', token };
+                }
 
-                        // Reconstruct URL preserving non-OAuth data
-                        const reconstructedUrl =
-                            currentPathname + (sanitizedSearch ? `?${sanitizedSearch}` : '') + sanitizedHash;
+                return response;
+            } catch (callbackError) {
+                if (signal.aborted || isAbortError(callbackError)) {
+                    // Cancelled on unmount or superseded by a newer callback: nothing to report
+                    return { type: null };
+                }
+                const error = toErrorResponse(callbackError);
+                updateLoginState(signal, { ...IDLE_STATE, status: 'error', error });
+                if (onFailure && isMountedRef.current) {
+                    await onFailure(error);
+                }
+                return { type: 'error', error };
+            }
+        },
+        [
+            autoFetch,
+            discordConfig,
+            loginStorage,
+            onFailure,
+            onSuccess,
+            sessionEnabled,
+            sessionStore,
+            sessionKey,
+            syncEnabled,
+            syncSource,
+            updateLoginState,
+        ]
+    );
 
-                        history.replaceState(null, '', reconstructedUrl);
-                    }
-                } catch {
-                    // noop: environment lacks URL/history support
+    const runCallback = useCallback(
+        async (url: string, response: CallbackResponse, signal: AbortSignal): Promise<CallbackResponse> => {
+            if (signal.aborted) {
+                return { type: null };
+            }
+            const currentUrl = parseUrl(url);
+            try {
+                if (currentUrl) {
+                    location.replace(stripOAuthParams(currentUrl.pathname + currentUrl.search + currentUrl.hash));
                 }
+            } catch {
+                // noop: the location adapter could not replace the URL
             }
-            if (error && onFailure && isMountedRef.current) {
-                await onFailure(error);
+
+            const returnTo = currentUrl ? consumeReturnTo(loginStorage, currentUrl.origin) : null;
+
+            try {
+                const result = await processResponse(response, signal);
+                if ((result.type === 'code' || result.type === 'token') && returnTo && isMountedRef.current) {
+                    const current = parseUrl(location.getUrl());
+                    if (!current || returnTo !== current.pathname + current.search + current.hash) {
+                        location.replace(returnTo);
+                    }
+                }
+                return result;
+            } catch (error) {
+                if (signal.aborted || isAbortError(error)) {
+                    return { type: null };
+                }
+                // Errors thrown by onSuccess/onFailure or the location adapter
+                console.error('Discord login callback failed:', error);
+                const errorResponse = toErrorResponse(error);
+                if (onFailure && isMountedRef.current) {
+                    await onFailure(errorResponse);
+                }
+                return { type: 'error', error: errorResponse };
             }
+        },
+        [location, loginStorage, onFailure, processResponse]
+    );
 
-            if (code && onSuccess && isMountedRef.current) {
-                await onSuccess(code);
+    const handleCallback = useCallback(
+        async (url: string) => {
+            const response = getCallbackResponse(url);
+
+            // Inside the login popup: hand the result to the opener and let it do the processing
+            if (response.type !== null && postCallbackToOpener(response)) {
+                window.close();
+                return;
             }
 
-            if (token && onSuccess && isMountedRef.current) {
-                const user = await fetchUser(token);
-                if (isMountedRef.current) {
-                    await onSuccess({
-                        ...token,
-                        user,
-                    });
-                }
+            const key = getCallbackKey(response);
+            if (key === null || !isMountedRef.current) {
+                return;
             }
-        } catch (callbackError) {
-            if (onFailure && isMountedRef.current) {
-                await onFailure({
-                    error: 'callback_error',
-                    description: callbackError instanceof Error ? callbackError.message : 'Unknown callback error',
-                });
+
+            // The first hook instance to see the callback processes it, the others share its result
+            const subscription = claimCallback(key, (signal) => runCallback(url, response, signal));
+            subscriptionRef.current?.release();
+            subscriptionRef.current = subscription;
+            setLoginState((current) =>
+                current.status === 'processing' ? current : { ...IDLE_STATE, status: 'processing' }
+            );
+
+            const result = await subscription.promise;
+            if (subscriptionRef.current !== subscription || !isMountedRef.current) {
+                // Superseded by a newer callback, reset or unmounted
+                return;
             }
-        } finally {
-            if (type !== null && isMountedRef.current) {
-                setLoading(false);
+            subscriptionRef.current = null;
+            subscription.release();
+
+            if (result.type === 'token' && sessionEnabled) {
+                setCurrentSession(loadSession(sessionStore, sessionKey));
             }
-        }
-    }, [onFailure, onSuccess]);
+            setLoginState(toLoginState(result));
+        },
+        [runCallback, sessionEnabled, sessionKey, sessionStore]
+    );
 
     useEffect(() => {
         // Define a single guarded async runner closure
-        const callbackRunner = async () => {
-            if (shouldHandleCallback()) {
-                try {
-                    await handleCallback();
-                } catch (error) {
-                    console.error('Discord login callback failed:', error);
-                    if (onFailure && isMountedRef.current) {
-                        await onFailure({
-                            error: 'callback_error',
-                            description: error instanceof Error ? error.message : 'Unknown callback error',
-                        });
-                    }
-                }
+        const callbackRunner = () => {
+            const url = location.getUrl();
+            if (shouldHandleCallback(url)) {
+                handleCallback(url);
             }
         };
 
         // Run on mount
         callbackRunner();
 
-        // Add event listeners for URL changes
-        const handleHashChange = () => callbackRunner();
-        const handlePopState = () => callbackRunner();
+        // Re-run on URL changes; the returned function removes the listener
+        return location.subscribe(() => {
+            callbackRunner();
+        });
+    }, [handleCallback, location]);
 
-        if (typeof window !== 'undefined') {
-            window.addEventListener('hashchange', handleHashChange);
-            window.addEventListener('popstate', handlePopState);
-        }
-
-        // Cleanup listeners
+    useEffect(() => {
+        isMountedRef.current = true;
         return () => {
-            if (typeof window !== 'undefined') {
-                window.removeEventListener('hashchange', handleHashChange);
-                window.removeEventListener('popstate', handlePopState);
-            }
+            isMountedRef.current = false;
+            abortControllerRef.current?.abort();
+            // Other hook instances waiting for the same callback keep its processing alive
+            subscriptionRef.current?.release();
+            subscriptionRef.current = null;
         };
-    }, [handleCallback, onFailure]);
+    }, []);
+
+    const buildUrl = useCallback(
+        (payload?: unknown) => {
+            const state = discordConfig.state ? createState(loginStorage, payload) : undefined;
+            return generateUrl(discordConfig, {
+                state,
+                codeChallenge:
+                    discordConfig.pkce && discordConfig.responseType === 'code'
+                        ? createPkceChallenge(loginStorage, state)
+                        : undefined,
+            });
+        },
+        [discordConfig, loginStorage]
+    );
+
+    const login = useCallback(
+        ({ returnTo, payload }: LoginOptions = {}) => {
+            const currentUrl = parseUrl(location.getUrl());
+            if (currentUrl) {
+                const currentPath = currentUrl.pathname + currentUrl.search + currentUrl.hash;
+                let target = resolveReturnTo(returnTo ?? currentPath, currentUrl.origin);
+                if (target === null) {
+                    console.warn(
+                        `[react-discord-login] returnTo '${returnTo}' is not on the current origin ` +
+                            `'${currentUrl.origin}'. Returning to the current page instead.`
+                    );
+                    target = currentPath;
+                }
+                saveReturnTo(loginStorage, target);
+            }
+            const url = buildUrl(payload);
+            setLoginState({ ...IDLE_STATE, status: 'redirecting' });
+            location.assign(url);
+        },
+        [buildUrl, location, loginStorage]
+    );
 
     useEffect(() => {
-        return () => {
-            isMountedRef.current = false;
+        if (typeof window === 'undefined') {
+            return;
+        }
+        // Going back to this page from Discord may restore it from the back/forward cache, still 'redirecting'
+        const handlePageShow = (event: PageTransitionEvent) => {
+            if (event.persisted) {
+                setLoginState((current) => (current.status === 'redirecting' ? IDLE_STATE : current));
+            }
         };
+
+        window.addEventListener('pageshow', handlePageShow);
+        return () => window.removeEventListener('pageshow', handlePageShow);
     }, []);
 
-    const buildUrl = useCallback(() => generateUrl(discordConfig), [discordConfig]);
+    const loginWithPopup = useCallback(
+        async (options?: PopupOptions, payload?: unknown): Promise<CallbackResponse> => {
+            const controller = startOperation();
+            setLoginState({ ...IDLE_STATE, status: 'redirecting' });
+            try {
+                const expectedOrigin = new URL(discordConfig.redirectUri).origin;
+                const response = await openLoginPopup(buildUrl(payload), expectedOrigin, options, controller.signal);
+                updateLoginState(controller.signal, { ...IDLE_STATE, status: 'processing' });
+                return await processResponse(response, controller.signal);
+            } finally {
+                finishOperation(controller);
+            }
+        },
+        [buildUrl, discordConfig, finishOperation, processResponse, startOperation, updateLoginState]
+    );
+
+    const getSession = useCallback(
+        () => (sessionEnabled ? loadSession(sessionStore, sessionKey) : null),
+        [sessionEnabled, sessionStore, sessionKey]
+    );
+
+    const reset = useCallback(() => {
+        abortControllerRef.current?.abort();
+        abortControllerRef.current = null;
+        subscriptionRef.current?.release();
+        subscriptionRef.current = null;
+        setLoginState(IDLE_STATE);
+    }, []);
+
+    const logout = useCallback(() => {
+        // The user and token of the last login belong to the session that ends here
+        reset();
+        clearSession(sessionStore, sessionKey);
+        setCurrentSession(null);
+        if (syncEnabled) {
+            publishAuthEvent({ type: 'logout', key: sessionKey, source: syncSource });
+        }
+    }, [reset, sessionStore, sessionKey, syncEnabled, syncSource]);
+
+    useEffect(() => {
+        if (!syncEnabled) {
+            return;
+        }
+        // Apply logins, logouts and token refreshes of other tabs and hook instances
+        return subscribeToAuthEvents((message) => {
+            if (message.key !== sessionKey || message.source === syncSource) {
+                return;
+            }
+            if (message.type === 'logout') {
+                reset();
+                clearSession(sessionStore, sessionKey);
+                setCurrentSession(null);
+                return;
+            }
+            if (!message.session) {
+                // Storage events carry no token: only a session kept in localStorage is shared with this tab
+                const storedSession = loadSession(sessionStore, sessionKey);
+                if (storedSession) {
+                    setCurrentSession(storedSession);
+                }
+                return;
+            }
+            saveSession(sessionStore, sessionKey, message.session);
+            setCurrentSession(message.session);
+        });
+    }, [reset, syncEnabled, syncSource, sessionStore, sessionKey]);
+
+    // Latest expiry handlers, read when the timers fire so new callbacks do not reschedule them
+    const expiryHandlersRef = useRef({ onTokenExpiring, onTokenExpired, tokenExpiry, login });
+    expiryHandlersRef.current = { onTokenExpiring, onTokenExpired, tokenExpiry, login };
+    const expiryLeadTime = tokenExpiry?.leadTime ?? DEFAULT_EXPIRY_LEAD_TIME;
+    // Access tokens already reported, since re-reading the stored session restarts the timers
+    const reportedExpiryRef = useRef({ expiring: '', expired: '' });
+
+    const handleTokenExpiring = useCallback(
+        async (expiringSession: DiscordSession) => {
+            if (reportedExpiryRef.current.expiring === expiringSession.token.access_token) {
+                return;
+            }
+            reportedExpiryRef.current.expiring = expiringSession.token.access_token;
+            const handlers = expiryHandlersRef.current;
+            try {
+                await handlers.onTokenExpiring?.(expiringSession);
+                const refresh = handlers.tokenExpiry?.refresh;
+                // Refresh tokens are single-use: one synchronized instance refreshes, the others apply its broadcast
+                if (
+                    !refresh ||
+                    (syncEnabled &&
+                        !(await claimExpiryAction('refresh', sessionKey, expiringSession.expiresAt, syncSource)))
+                ) {
+                    return;
+                }
+                const token = await refresh(expiringSession);
+                if (!token) {
+                    return;
+                }
+                // Kept even after an unmount: the other instances rely on this one's refresh
+                const refreshedSession = createSession({ ...token, user: token.user ?? expiringSession.user });
+                saveSession(sessionStore, sessionKey, refreshedSession);
+                if (isMountedRef.current) {
+                    setCurrentSession(refreshedSession);
+                }
+                if (syncEnabled) {
+                    publishAuthEvent({
+                        type: 'refresh',
+                        key: sessionKey,
+                        source: syncSource,
+                        session: refreshedSession,
+                    });
+                }
+            } catch (error) {
+                console.error('Discord token refresh failed:', error);
+            }
+        },
+        [sessionStore, sessionKey, syncEnabled, syncSource]
+    );
+
+    const handleTokenExpired = useCallback(
+        async (expiredSession: DiscordSession) => {
+            if (reportedExpiryRef.current.expired === expiredSession.token.access_token) {
+                return;
+            }
+            reportedExpiryRef.current.expired = expiredSession.token.access_token;
+            const stored = loadSession(sessionStore, sessionKey);
+            if (!stored || stored.token.access_token === expiredSession.token.access_token) {
+                clearSession(sessionStore, sessionKey);
+            }
+            if (!isMountedRef.current) {
+                return;
+            }
+            setCurrentSession((current) => (current === expiredSession ? null : current));
+            const handlers = expiryHandlersRef.current;
+            await handlers.onTokenExpired?.(expiredSession);
+            if (!handlers.tokenExpiry?.relogin) {
+                return;
+            }
+            // A single synchronized instance logs in again; the others apply the login it broadcasts
+            if (
+                syncEnabled &&
+                !(await claimExpiryAction('relogin', sessionKey, expiredSession.expiresAt, syncSource))
+            ) {
+                return;
+            }
+            if (isMountedRef.current) {
+                handlers.login();
+            }
+        },
+        [sessionStore, sessionKey, syncEnabled, syncSource]
+    );
+
+    useEffect(() => {
+        if (!currentSession) {
+            return;
+        }
+        return watchTokenExpiry(currentSession.expiresAt, {
+            leadTime: expiryLeadTime,
+            onExpiring: () => {
+                handleTokenExpiring(currentSession);
+            },
+            onExpired: () => {
+                handleTokenExpired(currentSession);
+            },
+        });
+    }, [currentSession, expiryLeadTime, handleTokenExpired, handleTokenExpiring]);
+
+    const isAuthenticated = currentSession !== null && !isSessionExpired(currentSession);
 
     return {
+        ...loginState,
         buildUrl,
-        isLoading,
+        login,
+        loginWithPopup,
+        isLoading: loginState.status === 'redirecting' || loginState.status === 'processing',
+        reset,
+        session: isAuthenticated ? currentSession : null,
+        getSession,
+        isAuthenticated,
+        logout,
     };
 };
 
@@ -1,5 +1,6 @@
-import { beforeEach, describe, expect, it, mock } from 'bun:test';
-import type { TokenResponse } from './DiscordLoginTypes';
+import { beforeEach, describe, expect, it, mock, spyOn } from 'bun:test';
+import type { DiscordScope, PartialGuild, TokenResponse, User } from './DiscordLoginTypes.js';
+import { DiscordApiError, DiscordConfigError } from './errors.js';
 
 // Import the module to mock after setting up the mock
 const mockFetch = mock();
@@ -11,7 +12,15 @@ Object.defineProperty(globalThis, 'fetch', {
 });
 
 // Import fetchUser after setting up mocks
-import { fetchUser } from './utils';
+import {
+    fetchConnections,
+    fetchGuildMember,
+    fetchGuilds,
+    fetchUser,
+    generateUrl,
+    getCallbackResponse,
+    normalizeDiscordConfig,
+} from './utils.js';
 
 describe('fetchUser', () => {
     const validToken: TokenResponse = {
@@ -172,3 +181,362 @@ describe('fetchUser', () => {
         });
     });
 });
+
+describe('generateUrl', () => {
+    const config = {
+        clientId: '123456789012345678',
+        redirectUri: 'https://myapp.com/callback',
+        responseType: 'code' as const,
+        scopes: ['identify', 'bot'] as DiscordScope[],
+        state: false,
+        pkce: false,
+    };
+
+    it('should include the optional Discord authorize parameters', () => {
+        const url = new URL(
+            generateUrl({
+                ...config,
+                prompt: 'none',
+                permissions: BigInt(8),
+                guildId: '987654321098765432',
+                disableGuildSelect: true,
+                integrationType: 0,
+            })
+        );
+
+        expect(url.searchParams.get('prompt')).toBe('none');
+        expect(url.searchParams.get('permissions')).toBe('8');
+        expect(url.searchParams.get('guild_id')).toBe('987654321098765432');
+        expect(url.searchParams.get('disable_guild_select')).toBe('true');
+        expect(url.searchParams.get('integration_type')).toBe('0');
+    });
+
+    it('should omit optional parameters that are not configured', () => {
+        const url = new URL(generateUrl(config));
+
+        expect(Array.from(url.searchParams.keys())).toEqual(['client_id', 'response_type', 'redirect_uri', 'scope']);
+    });
+
+    it('should use the configured authorization URL', () => {
+        const url = new URL(
+            generateUrl({ ...config, endpoints: { authorizeUrl: 'https://proxy.example.com/authorize' } })
+        );
+
+        expect(url.origin + url.pathname).toBe('https://proxy.example.com/authorize');
+        expect(url.searchParams.get('client_id')).toBe('123456789012345678');
+    });
+});
+
+describe('getCallbackResponse', () => {
+    it('should return the guild and permissions of bot authorizations with the code', () => {
+        expect(
+            getCallbackResponse('https://myapp.com/callback?code=abc&guild_id=987654321098765432&permissions=2048')
+        ).toMatchObject({
+            type: 'code',
+            code: { code: 'abc', guild_id: '987654321098765432', permissions: '2048' },
+        });
+    });
+
+    it('should omit the bot authorization fields from other code responses', () => {
+        expect(getCallbackResponse('https://myapp.com/callback?code=abc').code).toEqual({ code: 'abc' });
+    });
+});
+
+describe('normalizeDiscordConfig', () => {
+    const params = { clientId: '123456789012345678', redirectUri: 'https://myapp.com/callback' };
+
+    it('should de-duplicate scopes while keeping their order', () => {
+        const config = normalizeDiscordConfig({ ...params, scopes: ['identify', 'email', 'identify', 'guilds'] });
+
+        expect(config.scopes).toEqual(['identify', 'email', 'guilds']);
+    });
+
+    it('should reject an empty scope list', () => {
+        expect(() => normalizeDiscordConfig({ ...params, scopes: [] })).toThrow('At least one OAuth2 scope');
+    });
+
+    it('should reject scopes that require the code flow when using the token flow', () => {
+        expect(() => normalizeDiscordConfig({ ...params, responseType: 'token', scopes: ['identify', 'bot'] })).toThrow(
+            "The 'bot' scope requires responseType 'code'"
+        );
+        expect(() =>
+            normalizeDiscordConfig({ ...params, responseType: 'token', scopes: ['webhook.incoming'] })
+        ).toThrow("The 'webhook.incoming' scope requires responseType 'code'");
+        expect(normalizeDiscordConfig({ ...params, responseType: 'code', scopes: ['bot'] }).scopes).toEqual(['bot']);
+    });
+});
+
+describe('normalizeDiscordConfig validation', () => {
+    const params = { clientId: '123456789012345678', redirectUri: 'https://myapp.com/callback' };
+
+    const getConfigError = (run: () => unknown): DiscordConfigError => {
+        try {
+            run();
+        } catch (error) {
+            if (error instanceof DiscordConfigError) {
+                return error;
+            }
+            throw error;
+        }
+        throw new Error('Expected a DiscordConfigError');
+    };
+
+    it('should reject a client ID that is not a snowflake', () => {
+        const error = getConfigError(() => normalizeDiscordConfig({ ...params, clientId: 'my-client-id' }));
+
+        expect(error.name).toBe('DiscordConfigError');
+        expect(error.field).toBe('clientId');
+        expect(error.message).toContain("received 'my-client-id'");
+    });
+
+    it('should reject relative and non-http redirect URIs', () => {
+        expect(getConfigError(() => normalizeDiscordConfig({ ...params, redirectUri: '/callback' })).field).toBe(
+            'redirectUri'
+        );
+        expect(
+            getConfigError(() => normalizeDiscordConfig({ ...params, redirectUri: 'javascript:alert(1)' })).message
+        ).toContain('must use http or https');
+    });
+
+    it('should reject unsupported response types', () => {
+        const error = getConfigError(() =>
+            normalizeDiscordConfig({ ...params, responseType: 'id_token' as unknown as 'code' })
+        );
+
+        expect(error.field).toBe('responseType');
+    });
+
+    it('should warn once per redirect URI on another origin', () => {
+        const originalWindow = globalThis.window;
+        globalThis.window = { location: { origin: 'http://localhost:3000' } } as unknown as Window & typeof globalThis;
+        const warn = spyOn(console, 'warn').mockImplementation(() => {});
+
+        // The hook normalizes again whenever inline scopes or endpoints change identity
+        normalizeDiscordConfig({ ...params, redirectUri: 'https://other.example/callback' });
+        normalizeDiscordConfig({ ...params, redirectUri: 'https://other.example/callback', scopes: ['identify'] });
+        normalizeDiscordConfig({ ...params, redirectUri: 'https://other.example/login' });
+
+        expect(warn).toHaveBeenCalledTimes(2);
+        expect(warn.mock.calls[0][0]).toContain("redirectUri origin 'https://other.example'");
+        warn.mockRestore();
+        globalThis.window = originalWindow;
+    });
+
+    it('should report scope errors on the scopes field', () => {
+        expect(getConfigError(() => normalizeDiscordConfig({ ...params, scopes: [] })).field).toBe('scopes');
+    });
+
+    it('should reject relative endpoint URLs and invalid API versions', () => {
+        const urlError = getConfigError(() =>
+            normalizeDiscordConfig({ ...params, endpoints: { apiBaseUrl: '/discord-proxy' } })
+        );
+        expect(urlError.field).toBe('endpoints');
+        expect(urlError.message).toContain(
+            "endpoints.apiBaseUrl must be an absolute http(s) URL, received '/discord-proxy'"
+        );
+        expect(
+            getConfigError(() => normalizeDiscordConfig({ ...params, endpoints: { apiVersion: 10.5 } })).message
+        ).toContain('endpoints.apiVersion must be a positive integer');
+        expect(normalizeDiscordConfig({ ...params, endpoints: { apiVersion: 10 } }).endpoints).toEqual({
+            apiVersion: 10,
+        });
+    });
+});
+
+describe('Discord REST helpers', () => {
+    const token: TokenResponse = {
+        token_type: 'Bearer',
+        access_token: 'test_access_token',
+        expires_in: 3600,
+        scope: ['identify', 'guilds', 'guilds.members.read', 'connections'],
+    };
+
+    const okResponse = (body: unknown) =>
+        ({ ok: true, status: 200, statusText: 'OK', json: () => Promise.resolve(body) }) as unknown as Response;
+
+    beforeEach(() => {
+        mockFetch.mockReset();
+    });
+
+    it('should fetch guilds with pagination and counts', async () => {
+        mockFetch.mockResolvedValue(okResponse([{ id: '1', name: 'Guild' }]));
+
+        const guilds = await fetchGuilds(token, { after: '100', limit: 50, withCounts: true });
+
+        expect(guilds).toEqual([{ id: '1', name: 'Guild' }] as PartialGuild[]);
+        expect(mockFetch).toHaveBeenCalledWith(
+            'https://discord.com/api/users/@me/guilds?after=100&limit=50&with_counts=true',
+            {
+                headers: { authorization: 'Bearer test_access_token' },
+            }
+        );
+    });
+
+    it('should fetch the guild member and connections', async () => {
+        mockFetch.mockResolvedValue(okResponse({}));
+
+        await fetchGuildMember(token, '987654321098765432');
+        await fetchConnections(token);
+
+        expect(mockFetch.mock.calls[0][0]).toBe('https://discord.com/api/users/@me/guilds/987654321098765432/member');
+        expect(mockFetch.mock.calls[1][0]).toBe('https://discord.com/api/users/@me/connections');
+    });
+
+    it('should send requests to the configured API base URL and version', async () => {
+        mockFetch.mockResolvedValue(okResponse({}));
+        const endpoints = { apiBaseUrl: 'https://proxy.example.com/discord/', apiVersion: 10 };
+
+        await fetchUser(token, { endpoints });
+        await fetchGuilds(token, { limit: 10, endpoints });
+        await fetchConnections(token, { endpoints: { apiVersion: 9 } });
+
+        expect(mockFetch.mock.calls[0][0]).toBe('https://proxy.example.com/discord/v10/users/@me');
+        expect(mockFetch.mock.calls[1][0]).toBe('https://proxy.example.com/discord/v10/users/@me/guilds?limit=10');
+        expect(mockFetch.mock.calls[2][0]).toBe('https://discord.com/api/v9/users/@me/connections');
+    });
+
+    it('should wrap failures with a helper specific message', async () => {
+        mockFetch.mockResolvedValue({ ok: false, status: 404, statusText: 'Not Found' } as Response);
+
+        await expect(fetchGuildMember(token, '1')).rejects.toThrow(
+            'Failed to fetch guild member: Discord API responded with status: 404 Not Found'
+        );
+    });
+});
+
+describe('Discord API errors and retries', () => {
+    const token: TokenResponse = {
+        token_type: 'Bearer',
+        access_token: 'test_access_token',
+        expires_in: 3600,
+        scope: ['identify'],
+    };
+
+    const response = (status: number, body: unknown, headers: Record<string, string> = {}) =>
+        ({
+            ok: status >= 200 && status < 300,
+            status,
+            statusText: status === 429 ? 'Too Many Requests' : status === 401 ? 'Unauthorized' : 'Service Unavailable',
+            headers: new Headers(headers),
+            json: () => Promise.resolve(body),
+        }) as unknown as Response;
+
+    beforeEach(() => {
+        mockFetch.mockReset();
+    });
+
+    it('should expose status, Discord error code and message', async () => {
+        mockFetch.mockResolvedValue(response(401, { message: '401: Unauthorized', code: 0 }));
+
+        const error = await fetchUser(token).catch((reason: unknown) => reason);
+
+        expect(error).toBeInstanceOf(DiscordApiError);
+        expect(error).toMatchObject({ status: 401, code: 0, description: '401: Unauthorized' });
+        expect((error as Error).message).toBe(
+            'Failed to fetch user data: Discord API responded with status: 401 Unauthorized'
+        );
+        expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should retry rate-limited requests after retry_after', async () => {
+        mockFetch
+            .mockResolvedValueOnce(
+                response(
+                    429,
+                    { message: 'You are being rate limited.', retry_after: 0.01, global: false },
+                    { 'x-ratelimit-bucket': 'abc', 'x-ratelimit-remaining': '0', 'x-ratelimit-reset-after': '0.01' }
+                )
+            )
+            .mockResolvedValueOnce(response(200, { id: '1' }));
+
+        expect(await fetchUser(token)).toEqual({ id: '1' } as User);
+        expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should retry transient 5xx responses with backoff and give up after the retry budget', async () => {
+        mockFetch.mockResolvedValue(response(503, { message: 'Service Unavailable' }));
+
+        const error = await fetchUser(token, { retry: { retries: 2, baseDelay: 1 } }).catch(
+            (reason: unknown) => reason
+        );
+
+        expect(error).toMatchObject({ status: 503 });
+        expect(mockFetch).toHaveBeenCalledTimes(3);
+    });
+
+    it('should not wait longer than maxDelay', async () => {
+        mockFetch.mockResolvedValue(response(429, { retry_after: 60 }, { 'x-ratelimit-scope': 'user' }));
+
+        const error = await fetchUser(token).catch((reason: unknown) => reason);
+
+        expect(error).toMatchObject({ status: 429, retryAfter: 60, rateLimit: { scope: 'user' } });
+        expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not retry when retries are disabled', async () => {
+        mockFetch.mockResolvedValue(response(503, {}));
+
+        await expect(fetchConnections(token, { retry: false })).rejects.toBeInstanceOf(DiscordApiError);
+        expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should report network failures with status 0', async () => {
+        mockFetch.mockRejectedValue(new Error('Network error'));
+
+        const error = await fetchUser(token).catch((reason: unknown) => reason);
+
+        expect(error).toMatchObject({ status: 0, message: 'Failed to fetch user data: Network error' });
+    });
+});
+
+describe('Discord API request cancellation', () => {
+    const token: TokenResponse = {
+        token_type: 'Bearer',
+        access_token: 'test_access_token',
+        expires_in: 3600,
+        scope: ['identify'],
+    };
+
+    beforeEach(() => {
+        mockFetch.mockReset();
+    });
+
+    it('should pass the signal to fetch and reject with the abort reason', async () => {
+        const controller = new AbortController();
+        mockFetch.mockImplementation(
+            (_url: string, init: RequestInit) =>
+                new Promise((_resolve, reject) => {
+                    init.signal?.addEventListener('abort', () => reject(init.signal?.reason));
+                })
+        );
+
+        const request = fetchUser(token, { signal: controller.signal }).catch((reason: unknown) => reason);
+        controller.abort();
+        const error = await request;
+
+        expect(error).not.toBeInstanceOf(DiscordApiError);
+        expect((error as Error).name).toBe('AbortError');
+        expect(mockFetch.mock.calls[0][1]).toMatchObject({ signal: controller.signal });
+    });
+
+    it('should stop retrying when aborted during the backoff', async () => {
+        const controller = new AbortController();
+        mockFetch.mockImplementation(() => {
+            setTimeout(() => controller.abort(), 0);
+            return Promise.resolve({
+                ok: false,
+                status: 503,
+                statusText: 'Service Unavailable',
+                headers: new Headers(),
+                json: () => Promise.resolve({}),
+            });
+        });
+
+        const error = await fetchGuilds(token, { signal: controller.signal, retry: { baseDelay: 1000 } }).catch(
+            (reason: unknown) => reason
+        );
+
+        expect((error as Error).name).toBe('AbortError');
+        expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+});
@@ -1,10 +1,152 @@
+import { getCallbackParams, parseCallbackUrl } from './callbackUrl.js';
 import type {
+    ApiRequestOptions,
+    AuthorizeUrlExtras,
+    Connection,
+    DiscordEndpoints,
     DiscordLoginConfig,
     DiscordLoginParams,
+    DiscordScope,
+    FetchGuildsOptions,
     GetCallbackResponseFunc,
+    GuildMember,
+    PartialGuild,
+    RateLimitInfo,
     TokenResponse,
     User,
-} from './DiscordLoginTypes';
+} from './DiscordLoginTypes.js';
+import { getApiUrl, getAuthorizeUrl } from './endpoints.js';
+import { DiscordApiError, DiscordConfigError } from './errors.js';
+
+/**
+ * Scopes that Discord only grants through the authorization code flow.
+ *
+ * @internal
+ */
+const CODE_ONLY_SCOPES: Partial<Record<DiscordScope, string>> = {
+    bot: 'Discord does not return an access token for bot authorizations',
+    'webhook.incoming': 'the webhook is only returned with the token exchange response',
+};
+
+/**
+ * Rejects scope lists that Discord would refuse at the authorization screen.
+ *
+ * @internal
+ */
+const validateScopes = (scopes: DiscordScope[], responseType: DiscordLoginConfig['responseType']): DiscordScope[] => {
+    if (scopes.length === 0) {
+        throw new DiscordConfigError('scopes', 'At least one OAuth2 scope must be requested');
+    }
+
+    if (responseType === 'token') {
+        for (const scope of scopes) {
+            const reason = CODE_ONLY_SCOPES[scope];
+            if (reason) {
+                throw new DiscordConfigError('scopes', `The '${scope}' scope requires responseType 'code': ${reason}`);
+            }
+        }
+    }
+
+    return scopes;
+};
+
+/**
+ * Response types supported by the hook.
+ *
+ * @internal
+ */
+const RESPONSE_TYPES: DiscordLoginConfig['responseType'][] = ['code', 'token'];
+
+/**
+ * Ensures the client ID is a Discord snowflake.
+ *
+ * @internal
+ */
+const validateClientId = (clientId: string) => {
+    if (typeof clientId !== 'string' || !/^\d{17,20}$/.test(clientId)) {
+        throw new DiscordConfigError(
+            'clientId',
+            `clientId must be a Discord snowflake (17-20 digits), received '${String(clientId)}'. ` +
+                'Copy the Application ID from the Discord Developer Portal.'
+        );
+    }
+};
+
+// Redirect URIs already warned about, since the hook normalizes its configuration again on most renders
+const warnedRedirectUris = new Set<string>();
+
+/**
+ * Ensures the redirect URI is an absolute http(s) URL and warns (once per URI) when it points to another origin.
+ *
+ * @internal
+ */
+const validateRedirectUri = (redirectUri: string, hasWindow: boolean) => {
+    let url: URL;
+    try {
+        url = new URL(redirectUri);
+    } catch {
+        throw new DiscordConfigError('redirectUri', `redirectUri must be an absolute URL, received '${redirectUri}'`);
+    }
+
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+        throw new DiscordConfigError(
+            'redirectUri',
+            `redirectUri must use http or https, received '${url.protocol}' in '${redirectUri}'`
+        );
+    }
+
+    const currentOrigin = hasWindow ? window.location.origin : undefined;
+    // Opaque origins ('null', e.g. about:blank or sandboxed frames) cannot be compared meaningfully
+    if (
+        currentOrigin &&
+        currentOrigin !== 'null' &&
+        url.origin !== currentOrigin &&
+        !warnedRedirectUris.has(redirectUri)
+    ) {
+        warnedRedirectUris.add(redirectUri);
+        console.warn(
+            `[react-discord-login] redirectUri origin '${url.origin}' differs from the current origin ` +
+                `'${currentOrigin}'. The callback will not be processed by this page.`
+        );
+    }
+};
+
+/**
+ * Ensures the endpoint overrides are absolute http(s) URLs and the API version a positive integer.
+ *
+ * @internal
+ */
+const validateEndpoints = ({ authorizeUrl, apiBaseUrl, apiVersion, cdnBaseUrl }: DiscordEndpoints) => {
+    const urls: [keyof DiscordEndpoints, string | undefined][] = [
+        ['authorizeUrl', authorizeUrl],
+        ['apiBaseUrl', apiBaseUrl],
+        ['cdnBaseUrl', cdnBaseUrl],
+    ];
+    for (const [name, value] of urls) {
+        if (value === undefined) {
+            continue;
+        }
+        let protocol: string | undefined;
+        try {
+            protocol = new URL(value).protocol;
+        } catch {
+            // noop: reported below
+        }
+        if (protocol !== 'http:' && protocol !== 'https:') {
+            throw new DiscordConfigError(
+                'endpoints',
+                `endpoints.${name} must be an absolute http(s) URL, received '${value}'`
+            );
+        }
+    }
+
+    if (apiVersion !== undefined && (!Number.isInteger(apiVersion) || apiVersion < 1)) {
+        throw new DiscordConfigError(
+            'endpoints',
+            `endpoints.apiVersion must be a positive integer, received '${String(apiVersion)}'`
+        );
+    }
+};
 
 /**
  * Normalizes Discord OAuth2 configuration parameters with sensible defaults.
@@ -14,8 +156,24 @@ import type {
  * @param params.redirectUri - OAuth2 redirect URI (optional)
  * @param params.responseType - OAuth2 response type (optional)
  * @param params.scopes - Discord OAuth2 scopes array (optional)
+ * @param params.state - Whether to use the OAuth2 state parameter (optional)
+ * @param params.storage - Storage for per-login values (optional)
+ * @param params.pkce - Whether to use PKCE with the 'code' response type (optional)
+ * @param params.prompt - Authorization screen prompt behavior (optional)
+ * @param params.permissions - Bot permissions bitfield (optional)
+ * @param params.guildId - Guild to pre-select (optional)
+ * @param params.disableGuildSelect - Lock the pre-selected guild (optional)
+ * @param params.integrationType - Installation context (optional)
+ * @param params.endpoints - Authorization URL, API base URL and version overrides (optional)
+ *
+ * @returns Normalized configuration object with de-duplicated scopes
  *
- * @returns Normalized configuration object
+ * @throws {DiscordConfigError} When the client ID is not a Discord snowflake
+ * @throws {DiscordConfigError} When the redirect URI is missing during SSR or is not an absolute http(s) URL
+ * @throws {DiscordConfigError} When the response type is not supported
+ * @throws {DiscordConfigError} When no scopes are requested
+ * @throws {DiscordConfigError} When a scope that requires the 'code' response type is used with 'token'
+ * @throws {DiscordConfigError} When an endpoint is not an absolute http(s) URL or the API version is invalid
  *
  * @example
  * ```ts
@@ -23,7 +181,7 @@ import type {
  *   clientId: '123456789012345678',
  *   // Other params optional with defaults
  * });
- * // Returns: { clientId, redirectUri: window.location.origin, responseType: 'code', scopes: ['identify'] }
+ * // Returns: { clientId, redirectUri: window.location.origin, responseType: 'code', scopes: ['identify'], state: true, pkce: false }
  * ```
  */
 export const normalizeDiscordConfig = ({
@@ -31,6 +189,15 @@ export const normalizeDiscordConfig = ({
     redirectUri: uri,
     responseType: type,
     scopes: scopesArray,
+    state = true,
+    storage,
+    pkce = false,
+    prompt,
+    permissions,
+    guildId,
+    disableGuildSelect,
+    integrationType,
+    endpoints,
 }: DiscordLoginParams): DiscordLoginConfig => {
     const hasWindow = typeof window !== 'undefined' && typeof window.location !== 'undefined';
 
@@ -40,17 +207,44 @@ export const normalizeDiscordConfig = ({
     } else if (hasWindow) {
         redirectUri = window.location.origin;
     } else {
-        throw new Error('redirectUri must be provided when window is not available (SSR environment)');
+        throw new DiscordConfigError(
+            'redirectUri',
+            'redirectUri must be provided when window is not available (SSR environment)'
+        );
     }
 
+    validateClientId(clientId);
+    validateRedirectUri(redirectUri, hasWindow);
+
     const responseType = type || 'code';
-    const scopes = scopesArray || ['identify'];
+    if (!RESPONSE_TYPES.includes(responseType)) {
+        throw new DiscordConfigError(
+            'responseType',
+            `responseType must be one of ${RESPONSE_TYPES.map((value) => `'${value}'`).join(', ')}, received '${String(responseType)}'`
+        );
+    }
+
+    const requestedScopes: DiscordScope[] = scopesArray || ['identify'];
+    const scopes = validateScopes(Array.from(new Set(requestedScopes)), responseType);
+
+    if (endpoints) {
+        validateEndpoints(endpoints);
+    }
 
     return {
         clientId,
         redirectUri,
         responseType,
         scopes,
+        state,
+        storage,
+        pkce,
+        prompt,
+        permissions,
+        guildId,
+        disableGuildSelect,
+        integrationType,
+        endpoints,
     };
 };
 
@@ -62,6 +256,15 @@ export const normalizeDiscordConfig = ({
  * @param config.redirectUri - OAuth2 redirect URI
  * @param config.responseType - OAuth2 response type ('code' or 'token')
  * @param config.scopes - Discord OAuth2 scopes array
+ * @param config.prompt - Authorization screen prompt behavior
+ * @param config.permissions - Bot permissions bitfield
+ * @param config.guildId - Guild to pre-select
+ * @param config.disableGuildSelect - Lock the pre-selected guild
+ * @param config.integrationType - Installation context
+ * @param config.endpoints - Authorization URL override
+ * @param extras - Per-login parameters
+ * @param extras.state - OAuth2 state parameter (see `createState`)
+ * @param extras.codeChallenge - PKCE S256 code challenge (see `createPkceChallenge`)
  *
  * @returns Complete Discord authorization URL
  *
@@ -76,55 +279,67 @@ export const normalizeDiscordConfig = ({
  * // Returns: 'https://discord.com/api/oauth2/authorize?client_id=123...&scope=identify%20email'
  * ```
  */
-export const generateUrl = ({ clientId, redirectUri, responseType, scopes }: DiscordLoginConfig) => {
+export const generateUrl = (
+    {
+        clientId,
+        redirectUri,
+        responseType,
+        scopes,
+        prompt,
+        permissions,
+        guildId,
+        disableGuildSelect,
+        integrationType,
+        endpoints,
+    }: DiscordLoginConfig,
+    { state, codeChallenge }: AuthorizeUrlExtras = {}
+) => {
     const searchParams = new URLSearchParams();
     searchParams.append('client_id', clientId);
     searchParams.append('response_type', responseType);
     searchParams.append('redirect_uri', redirectUri);
     searchParams.append('scope', scopes.join(' '));
+    if (prompt) {
+        searchParams.append('prompt', prompt);
+    }
+    if (permissions !== undefined) {
+        searchParams.append('permissions', permissions.toString());
+    }
+    if (guildId) {
+        searchParams.append('guild_id', guildId);
+    }
+    if (disableGuildSelect !== undefined) {
+        searchParams.append('disable_guild_select', String(disableGuildSelect));
+    }
+    if (integrationType !== undefined) {
+        searchParams.append('integration_type', String(integrationType));
+    }
+    if (state) {
+        searchParams.append('state', state);
+    }
+    if (codeChallenge) {
+        searchParams.append('code_challenge', codeChallenge);
+        searchParams.append('code_challenge_method', 'S256');
+    }
 
-    return `https://discord.com/api/oauth2/authorize?${searchParams.toString()}`;
+    return `${getAuthorizeUrl(endpoints)}?${searchParams.toString()}`;
 };
 
 /**
- * Extracts and combines URL parameters from both query string and hash fragment.
- *
- * Discord OAuth2 can return parameters in either location depending on the response type:
- * - 'code' flow: parameters in query string (?code=...)
- * - 'token' flow: parameters in hash fragment (#access_token=...)
+ * Returns the URL of the current page, or an empty string during SSR.
  *
- * @returns URLSearchParams containing combined parameters from both sources
- *
- * @internal This function is not exported and used internally by getCallbackResponse
+ * @internal
  */
-const getQueryAndHash = (): URLSearchParams => {
-    const params = new URLSearchParams();
-
-    // Return empty URLSearchParams during SSR
-    if (typeof window === 'undefined') {
-        return params;
-    }
-
-    // Parse query parameters first
-    const query = new URLSearchParams(window.location.search);
-    query.forEach((value, key) => {
-        params.set(key, value);
-    });
+const getCurrentUrl = (): string => (typeof window === 'undefined' ? '' : window.location.href);
 
-    // Parse hash fragment parameters (these override query values if duplicate keys)
-    const fragment = new URLSearchParams(window.location.hash.slice(1));
-    fragment.forEach((value, key) => {
-        params.set(key, value);
-    });
-
-    return params;
-};
 /**
  * Parses Discord OAuth2 callback response from current URL.
  *
  * Analyzes the current page URL (both query parameters and hash fragments) to detect
  * and parse Discord OAuth2 callback responses. Handles all three possible response types:
- * error, code, and token.
+ * error, code, and token. See `parseCallbackUrl` to parse an arbitrary URL, e.g. on the server.
+ *
+ * @param url - Callback URL to parse, defaults to the current page URL
  *
  * @returns Parsed callback response object with discriminated union type
  *
@@ -133,7 +348,7 @@ const getQueryAndHash = (): URLSearchParams => {
  * // URL: https://app.com/callback?error=access_denied&error_description=User%20denied
  * const response = getCallbackResponse();
  * if (response.type === 'error') {
- *   console.error(response.error); // { error: 'access_denied', description: 'User denied' }
+ *   console.error(response.error); // { error: 'access_denied', description: 'User denied', source: 'authorization' }
  * }
  *
  * // URL: https://app.com/callback?code=NhhvTDYsFcdgNLvQ
@@ -150,69 +365,157 @@ const getQueryAndHash = (): URLSearchParams => {
  * ```
  *
  * @remarks
- * - Returns `{ type: null }` if no OAuth2 callback parameters are detected
+ * - Returns `{ type: null }` if no OAuth2 callback parameters are detected, and during SSR
  * - Supports both query string (?code=...) and hash fragment (#access_token=...) parsing
- * - Automatically handles parameter type conversion (strings to numbers for expires_in)
- * - Splits space-separated scope strings into arrays
  */
-export const getCallbackResponse: GetCallbackResponseFunc = () => {
-    const params = getQueryAndHash();
-    const error = params.get('error');
-    const error_description = params.get('error_description');
-    const token_type = params.get('token_type');
-    const code = params.get('code');
-
-    if (error || error_description) {
-        return {
-            type: 'error',
-            error: {
-                error: error ?? 'unknown_error',
-                description: error_description ?? '',
-            },
-        };
-    }
+export const getCallbackResponse: GetCallbackResponseFunc = (url = getCurrentUrl()) =>
+    url ? parseCallbackUrl(url) : { type: null };
 
-    if (token_type) {
-        const access_token = params.get('access_token');
-        const expires_in = params.get('expires_in');
-        const scope = params.get('scope');
-
-        // Validate that access_token exists for token responses
-        if (!access_token) {
-            return {
-                type: 'error',
-                error: {
-                    error: 'invalid_token_response',
-                    description: 'Token response is missing required access_token parameter',
-                },
-            };
-        }
+/**
+ * HTTP statuses treated as transient and retried.
+ *
+ * @internal
+ */
+const RETRYABLE_STATUSES = [429, 500, 502, 503, 504];
 
-        return {
-            type: 'token',
-            token: {
-                token_type,
-                access_token,
-                expires_in: expires_in ? Number(expires_in) : 0,
-                scope: scope ? scope.split(' ') : [],
-            },
+const sleep = (ms: number, signal?: AbortSignal) =>
+    new Promise<void>((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(signal.reason);
+            return;
+        }
+        const onAbort = () => {
+            clearTimeout(timeout);
+            reject(signal?.reason);
         };
-    }
+        const timeout = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
 
-    if (code) {
-        return {
-            type: 'code',
-            code: {
-                code,
-            },
-        };
+const toNumber = (value: string | null | undefined): number | undefined => {
+    if (value === null || value === undefined || value === '') {
+        return undefined;
     }
+    const parsed = Number(value);
+    return Number.isNaN(parsed) ? undefined : parsed;
+};
 
+/**
+ * Reads Discord's `X-RateLimit-*` headers.
+ *
+ * @internal
+ */
+const readRateLimit = (headers: Headers | undefined): RateLimitInfo => {
+    const get = (name: string) => headers?.get?.(name) ?? null;
+    const global = get('x-ratelimit-global');
     return {
-        type: null,
+        limit: toNumber(get('x-ratelimit-limit')),
+        remaining: toNumber(get('x-ratelimit-remaining')),
+        reset: toNumber(get('x-ratelimit-reset')),
+        resetAfter: toNumber(get('x-ratelimit-reset-after')),
+        bucket: get('x-ratelimit-bucket') ?? undefined,
+        global: global === null ? undefined : global === 'true',
+        scope: get('x-ratelimit-scope') ?? undefined,
     };
 };
 
+/**
+ * Converts a failed response into a `DiscordApiError`, reading Discord's JSON error body when present.
+ *
+ * @internal
+ */
+const toApiError = async (result: Response, failureMessage: string): Promise<DiscordApiError> => {
+    let body: { code?: number; message?: string; retry_after?: number } = {};
+    try {
+        body = (await result.json()) ?? {};
+    } catch {
+        // noop: error bodies are not always JSON
+    }
+
+    const rateLimit = readRateLimit(result.headers);
+    const retryAfter =
+        result.status === 429
+            ? (toNumber(String(body.retry_after ?? '')) ??
+              rateLimit.resetAfter ??
+              toNumber(result.headers?.get?.('retry-after')))
+            : undefined;
+
+    return new DiscordApiError(
+        `${failureMessage}: Discord API responded with status: ${result.status} ${result.statusText}`,
+        {
+            status: result.status,
+            code: body.code,
+            description: body.message ?? result.statusText,
+            retryAfter,
+            rateLimit,
+        }
+    );
+};
+
+/**
+ * Performs an authenticated GET request against the Discord API.
+ *
+ * Shared by all API helpers so they use the same authorization header and error handling:
+ * failed responses throw a `DiscordApiError` with a `"<failureMessage>: <reason>"` message.
+ * Rate-limited (429) and transient 5xx responses are retried up to `retry.retries` times, waiting
+ * for `retry_after` / `X-RateLimit-Reset-After` or an exponential backoff, as long as the wait does
+ * not exceed `retry.maxDelay`. Aborting `signal` rejects with the abort reason as is, so callers can
+ * tell a cancelled request from a failed one. Requests go to `endpoints.apiBaseUrl` (pinned to
+ * `endpoints.apiVersion` when set) instead of 'https://discord.com/api'.
+ *
+ * @internal
+ */
+const discordApiRequest = async <T>(
+    path: string,
+    token: TokenResponse,
+    failureMessage: string,
+    { retry, signal, endpoints }: ApiRequestOptions = {}
+): Promise<T> => {
+    const { retries = 2, maxDelay = 10_000, baseDelay = 500 } = retry === false ? { retries: 0 } : (retry ?? {});
+
+    for (let attempt = 0; ; attempt++) {
+        let result: Response;
+        try {
+            result = await fetch(getApiUrl(path, endpoints), {
+                headers: {
+                    authorization: `${token.token_type} ${token.access_token}`,
+                },
+                signal,
+            });
+        } catch (error) {
+            if (signal?.aborted) {
+                throw error;
+            }
+            const description = error instanceof Error ? error.message : 'Unknown error occurred';
+            throw new DiscordApiError(`${failureMessage}: ${description}`, { status: 0, description });
+        }
+
+        if (result.ok) {
+            try {
+                return (await result.json()) as T;
+            } catch (error) {
+                if (signal?.aborted) {
+                    throw error;
+                }
+                const description = error instanceof Error ? error.message : 'Unknown error occurred';
+                throw new DiscordApiError(`${failureMessage}: ${description}`, { status: result.status, description });
+            }
+        }
+
+        const apiError = await toApiError(result, failureMessage);
+        const delay = apiError.retryAfter !== undefined ? apiError.retryAfter * 1000 : baseDelay * 2 ** attempt;
+
+        if (attempt >= retries || !RETRYABLE_STATUSES.includes(result.status) || delay > maxDelay) {
+            throw apiError;
+        }
+
+        await sleep(delay, signal);
+    }
+};
+
 /**
  * Fetches Discord user data using an OAuth2 access token.
  *
@@ -223,12 +526,17 @@ export const getCallbackResponse: GetCallbackResponseFunc = () => {
  * @param token - OAuth2 token response containing access token and metadata
  * @param token.access_token - The Discord access token
  * @param token.token_type - Token type (typically 'Bearer')
+ * @param options - Request options
+ * @param options.retry - Retry policy for 429 and transient 5xx responses, or false
+ * @param options.signal - Aborts the request
+ * @param options.endpoints - API base URL and version overrides
  *
  * @returns Promise resolving to Discord user object
  *
- * @throws {Error} When Discord API request fails
- * @throws {Error} When network request fails
- * @throws {Error} When response parsing fails
+ * @throws {DiscordApiError} When Discord API request fails
+ * @throws {DiscordApiError} When network request fails (status 0)
+ * @throws {DiscordApiError} When response parsing fails
+ * @throws The signal's abort reason (an `AbortError` by default) when `options.signal` is aborted
  *
  * @example
  * ```ts
@@ -249,33 +557,123 @@ export const getCallbackResponse: GetCallbackResponseFunc = () => {
  * ```
  *
  * @remarks
- * All errors are wrapped with descriptive messages:
+ * All errors are thrown as `DiscordApiError` (with `status`, `code`, `retryAfter` and `rateLimit`)
+ * carrying descriptive messages:
  * - HTTP errors: "Failed to fetch user data: Discord API responded with status: 401 Unauthorized"
  * - Network errors: "Failed to fetch user data: Network connection failed"
  * - Unknown errors: "Failed to fetch user data: Unknown error occurred"
+ *
+ * 429 and transient 5xx responses are retried (twice by default) before the error is thrown.
+ * Aborted requests reject with the signal's abort reason instead of a `DiscordApiError`.
  */
-export const fetchUser = async (token: TokenResponse): Promise<User> => {
-    try {
-        const result = await fetch('https://discord.com/api/users/@me', {
-            headers: {
-                authorization: `${token.token_type} ${token.access_token}`,
-            },
-        });
-
-        if (!result.ok) {
-            throw new Error(`Discord API responded with status: ${result.status} ${result.statusText}`);
-        }
+export const fetchUser = (token: TokenResponse, options?: ApiRequestOptions): Promise<User> =>
+    discordApiRequest<User>('/users/@me', token, 'Failed to fetch user data', options);
 
-        const userData = await result.json();
-        return userData as User;
-    } catch (error) {
-        if (error instanceof Error) {
-            throw new Error(`Failed to fetch user data: ${error.message}`);
-        }
-        throw new Error('Failed to fetch user data: Unknown error occurred');
+/**
+ * Fetches the guilds the current user is a member of.
+ *
+ * Requires the 'guilds' scope. Discord returns at most 200 guilds per page; use `before`/`after`
+ * with guild IDs to paginate.
+ *
+ * @param token - OAuth2 token response containing access token and metadata
+ * @param options - Pagination and count options
+ * @param options.before - Return guilds before this guild ID
+ * @param options.after - Return guilds after this guild ID
+ * @param options.limit - Maximum number of guilds to return (1-200, Discord defaults to 200)
+ * @param options.withCounts - Include approximate member and presence counts
+ * @param options.retry - Retry policy for 429 and transient 5xx responses, or false
+ * @param options.signal - Aborts the request
+ * @param options.endpoints - API base URL and version overrides
+ *
+ * @returns Promise resolving to the user's partial guilds
+ *
+ * @throws {DiscordApiError} When the Discord API request fails
+ *
+ * @example
+ * ```ts
+ * const guilds = await fetchGuilds(token, { limit: 50, withCounts: true });
+ * const nextPage = await fetchGuilds(token, { after: guilds[guilds.length - 1].id });
+ * ```
+ */
+export const fetchGuilds = (
+    token: TokenResponse,
+    { before, after, limit, withCounts, ...options }: FetchGuildsOptions = {}
+): Promise<PartialGuild[]> => {
+    const searchParams = new URLSearchParams();
+    if (before) {
+        searchParams.append('before', before);
+    }
+    if (after) {
+        searchParams.append('after', after);
+    }
+    if (limit !== undefined) {
+        searchParams.append('limit', String(limit));
     }
+    if (withCounts !== undefined) {
+        searchParams.append('with_counts', String(withCounts));
+    }
+    const query = searchParams.toString();
+
+    return discordApiRequest<PartialGuild[]>(
+        `/users/@me/guilds${query ? `?${query}` : ''}`,
+        token,
+        'Failed to fetch guilds',
+        options
+    );
 };
 
+/**
+ * Fetches the current user's member object in a guild.
+ *
+ * Requires the 'guilds.members.read' scope.
+ *
+ * @param token - OAuth2 token response containing access token and metadata
+ * @param guildId - ID of the guild
+ * @param options - Request options (retry policy and abort signal)
+ *
+ * @returns Promise resolving to the guild member
+ *
+ * @throws {DiscordApiError} When the Discord API request fails (404 when the user is not a member)
+ *
+ * @example
+ * ```ts
+ * const member = await fetchGuildMember(token, '123456789012345678');
+ * console.log(member.roles);
+ * ```
+ */
+export const fetchGuildMember = (
+    token: TokenResponse,
+    guildId: string,
+    options?: ApiRequestOptions
+): Promise<GuildMember> =>
+    discordApiRequest<GuildMember>(
+        `/users/@me/guilds/${encodeURIComponent(guildId)}/member`,
+        token,
+        'Failed to fetch guild member',
+        options
+    );
+
+/**
+ * Fetches the current user's third-party account connections.
+ *
+ * Requires the 'connections' scope.
+ *
+ * @param token - OAuth2 token response containing access token and metadata
+ * @param options - Request options (retry policy and abort signal)
+ *
+ * @returns Promise resolving to the user's connections
+ *
+ * @throws {DiscordApiError} When the Discord API request fails
+ *
+ * @example
+ * ```ts
+ * const connections = await fetchConnections(token);
+ * const github = connections.find((connection) => connection.type === 'github');
+ * ```
+ */
+export const fetchConnections = (token: TokenResponse, options?: ApiRequestOptions): Promise<Connection[]> =>
+    discordApiRequest<Connection[]>('/users/@me/connections', token, 'Failed to fetch connections', options);
+
 /**
  * Determines if the current URL contains Discord OAuth2 callback parameters.
  *
@@ -283,6 +681,8 @@ export const fetchUser = async (token: TokenResponse): Promise<User> => {
  * callback indicators: 'code', 'error', or 'token_type'. Used by the useDiscordLogin
  * hook to decide whether to process the current URL as an OAuth2 callback.
  *
+ * @param url - URL to check, defaults to the current page URL
+ *
  * @returns True if OAuth2 callback parameters are detected, false otherwise
  *
  * @example
@@ -304,8 +704,8 @@ export const fetchUser = async (token: TokenResponse): Promise<User> => {
  * This function enables the hook to automatically detect and process OAuth2 callbacks
  * without requiring explicit callback registration or route matching.
  */
-export const shouldHandleCallback = (): boolean => {
-    const params = getQueryAndHash();
+export const shouldHandleCallback = (url: string = getCurrentUrl()): boolean => {
+    const params = getCallbackParams(url);
     const keys = Array.from(params.keys());
     const targets = ['code', 'error', 'token_type'];
     return targets.some((target) => keys.includes(target));
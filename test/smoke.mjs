@@ -0,0 +1,18 @@
+// test/smoke.mjs
+// Imports the built entry points with Node to catch module resolution errors that bundlers and Bun would hide.
+// Run after `bun run build`.
+import assert from 'node:assert/strict';
+
+const server = await import('react-discord-login/server');
+assert.equal(typeof server.exchangeCode, 'function');
+assert.equal(typeof server.refreshToken, 'function');
+assert.equal(typeof server.revokeToken, 'function');
+assert.equal(typeof server.DiscordTokenError, 'function');
+
+const testing = await import('react-discord-login/testing');
+assert.equal(typeof testing.createFakeDiscord, 'function');
+
+const main = await import('react-discord-login');
+assert.equal(typeof main.useDiscordLogin, 'function');
+
+console.log('Built entry points load in Node');